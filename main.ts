@@ -4,26 +4,271 @@
 
 import {
   App,
+  ButtonComponent,
   Editor,
+  Modal,
   Plugin,
   PluginSettingTab,
   Setting,
+  SuggestModal,
   TextAreaComponent,
+  TextComponent,
   Notice,
   MarkdownView,
+  TAbstractFile,
   TFile,
+  TFolder,
+  ItemView,
+  WorkspaceLeaf,
+  getAllTags,
+  htmlToMarkdown,
+  requestUrl,
+  moment,
+  parseYaml,
+  Menu,
+  Command,
 } from 'obsidian'
 
 /** ===== Modelo N×N ===== */
 type Id = string;
-interface PatternItem { id: Id; text: string; }
-interface ReplacerItem { id: Id; text: string; }
+interface PatternItem {
+  id: Id;
+  text: string;
+  /** Flags extras do RegExp (i, m, s, u); `g` é sempre aplicada */
+  flags?: string;
+}
+interface ReplacerItem {
+  id: Id;
+  /** Template de substituição ou, em `script`, o corpo de uma função JavaScript */
+  text: string;
+  type?: ReplacerType;
+  /** `fetch`: campo da página usado como `{{title}}` no template */
+  fetchField?: FetchField;
+  /** `fetch`: template usado se a requisição falhar ou estourar o tempo (padrão `$&`) */
+  fallback?: string;
+}
+/** text: template · script: função JavaScript · fetch: template com dados da página da URL casada */
+type ReplacerType = 'text' | 'script' | 'fetch'
+type FetchField = 'title' | 'og:title' | 'og:description' | 'og:site_name'
+const FETCH_FIELDS: FetchField[] = ['title', 'og:title', 'og:description', 'og:site_name']
 interface LinkItem {
   id: Id;
   patternId: Id;
   replacerId: Id;
   enabled: boolean;
   comment?: string;
+  /** Pipeline: quando true, a saída desta regra alimenta as regras seguintes (senão, para aqui) */
+  continue?: boolean;
+  /** Qual conteúdo do clipboard a regra lê (padrão: texto puro) */
+  flavor?: ClipboardFlavor;
+  /** Restringe a regra a algumas notas (vazio = vale em todo o cofre) */
+  scope?: RuleScope;
+  /** Contextos do cursor onde a regra NÃO dispara (ausente = DEFAULT_BLOCKED_CONTEXTS) */
+  blockedContexts?: MdContext[];
+  /** Exemplos entrada → saída esperada, conferidos por "Run tests" */
+  tests?: RuleTest[];
+  /** Amostras que esta regra não pode transformar */
+  mustNotMatch?: string[];
+}
+
+interface RuleTest { input: string; expected: string; }
+
+/** Resultado de um teste de regra (exemplo ou amostra negativa) */
+interface TestOutcome {
+  linkId: Id;
+  kind: 'example' | 'negative';
+  input: string;
+  expected?: string;
+  actual: string;
+  pass: boolean;
+  /** Regra desabilitada: o teste não roda */
+  skipped?: boolean;
+  errors: string[];
+}
+
+/** Contexto sintático do cursor no Markdown */
+type MdContext = 'text' | 'codeblock' | 'inline-code' | 'link-destination' | 'frontmatter' | 'heading' | 'table'
+const MD_CONTEXT_LABELS: Record<MdContext, string> = {
+  'text': "Texto",
+  'codeblock': "Bloco de código",
+  'inline-code': "Código inline",
+  'link-destination': "Destino de link",
+  'frontmatter': "Frontmatter",
+  'heading': "Título",
+  'table': "Tabela",
+}
+/** Padrão seguro: não transformar dentro de código nem no `(url)` de um link */
+const DEFAULT_BLOCKED_CONTEXTS: MdContext[] = ['codeblock', 'inline-code', 'link-destination']
+
+/** Escopo de uma regra: todos os critérios preenchidos precisam ser atendidos */
+interface RuleScope {
+  /** Glob do caminho da nota (`Work/**`, `*.md`); sem curinga = pasta e subpastas */
+  folder?: string;
+  /** Tag exigida, sem `#`; também casa tags aninhadas (`work` → `#work/x`) */
+  tag?: string;
+  /** Chave de frontmatter exigida; com valor vazio basta a chave existir */
+  frontmatterKey?: string;
+  frontmatterValue?: string;
+}
+
+/** Nota onde o paste acontece (ou a simulada no painel Try) */
+interface PasteContext {
+  file?: { path: string; tags: string[]; frontmatter: Record<string, unknown> };
+  /** Contexto do cursor; ausente = texto comum */
+  md?: MdContext;
+  /** Texto selecionado no momento do paste (`{{selection}}`) */
+  selection?: string;
+  /** Texto puro do clipboard (`{{clipboard}}`); padrão: o texto colado */
+  clipboard?: string;
+  /** Valor obtido por um replacer `fetch` (`{{title}}`) */
+  fetched?: string;
+  /** Testes de regras: ignora escopo e contexto Markdown */
+  ignoreScope?: boolean;
+}
+
+/** Uma ocorrência do regex, como recebida por um replacer-função de String.replace */
+interface MatchInfo {
+  match: string;
+  groups: (string | undefined)[];
+  named?: Record<string, string | undefined>;
+  offset: number;
+  input: string;
+}
+
+/** text: text/plain · html: código-fonte text/html · anchor: href do link único no HTML */
+type ClipboardFlavor = 'text' | 'html' | 'anchor'
+const FLAVOR_LABELS: Record<ClipboardFlavor, string> = {
+  text: "Texto puro",
+  html: "HTML (fonte)",
+  anchor: "Link do HTML (href + $text)",
+}
+
+/** Conteúdo colado, com os sabores disponíveis */
+interface PasteInput {
+  text: string;
+  html?: string;
+  anchor?: { href: string; text: string };
+}
+
+/** Uma etapa do pipeline: regra que disparou e o texto antes/depois dela */
+interface TransformStep { linkId: Id; flavor: ClipboardFlavor; input: string; output: string; }
+interface TransformResult { output: string; steps: TransformStep[]; errors: RuleError[]; jobs: FetchJob[]; }
+/** Como cada ligação se comportou com um texto (painel Try): casou, venceu, ou por que ficou de fora */
+type ExplainStatus = 'won' | 'fired' | 'matched' | 'no-match' | 'out-of-scope' | 'disabled' | 'invalid'
+interface RuleExplanation {
+  linkId: Id;
+  status: ExplainStatus;
+  reason?: string;
+  /** Texto que a regra leu e o trecho [from, to) da primeira ocorrência */
+  subject?: string;
+  span?: { from: number; to: number };
+  groups: { name: string; value: string | undefined }[];
+}
+const EXPLAIN_LABELS: Record<ExplainStatus, string> = {
+  'won': "🏆 venceu",
+  'fired': "⤵ continuou",
+  'matched': "✓ casou",
+  'no-match': "· não casou",
+  'out-of-scope': "⊘ fora do escopo",
+  'disabled': "⏸ desabilitada",
+  'invalid': "⚠️ inválida",
+}
+/** Ocorrência encontrada por scanText: trecho [from, to) do texto e a substituição proposta */
+interface ScanMatch { from: number; to: number; before: string; after: string; linkId: Id; line: number; }
+
+/** Opção do "Paste as…": texto original, resultado do pipeline ou saída de uma regra */
+interface PasteCandidate { label: string; output: string; linkId?: Id; jobs: FetchJob[]; steps?: TransformStep[]; }
+
+/** Paste transformado, guardado no histórico: entrada do clipboard, resultado e regras que dispararam */
+interface HistoryEntry {
+  at: number;
+  /** Nota onde foi colado ("" sem nota) */
+  path: string;
+  input: string;
+  output: string;
+  linkIds: Id[];
+  /** Rótulos das regras no momento do paste (a regra pode mudar ou sumir depois) */
+  rules: string[];
+  /** Entrada ou saída cortada em HISTORY_TEXT_MAX caracteres */
+  truncated?: boolean;
+}
+
+/** Uso de uma ligação, registrado ao colar (opt-in, fica fora de exportações e backups) */
+interface RuleUsage { count: number; lastUsed: number; samples: string[]; }
+
+/** Resultado da simulação em massa para uma nota: conteúdo lido e substituições propostas */
+interface BulkFileResult { file: TFile; content: string; matches: ScanMatch[]; }
+
+/** Conteúdo original das notas alteradas, gravado no relatório para poder desfazer. `hash` é o do
+ *  conteúdo logo depois de aplicar: se a nota mudou desde então, a restauração a pula. */
+interface BulkSnapshot { createdAt: string; files: Record<string, { content: string; hash: string }>; }
+
+/** Busca pendente de um replacer `fetch`: o placeholder inserido é trocado pelo texto final */
+interface FetchJob {
+  placeholder: string;
+  fallback: string;
+  url: string;
+  field: FetchField;
+  render: (value: string) => string;
+}
+/** Falha ao aplicar uma regra (ex.: filtro inválido); a regra é pulada */
+interface RuleError { linkId: Id; message: string; }
+/** Falha ao compilar um item; a regra correspondente fica fora de `rules` */
+interface CompileError { linkId?: Id; patternId?: Id; replacerId?: Id; outboundId?: Id; message: string; }
+
+/** Regra lida de um bloco `paste-transform` numa nota; somente leitura nas configurações */
+interface NoteRule {
+  pattern: PatternItem;
+  replacer: ReplacerItem;
+  link: LinkItem;
+  /** Nota e linha (1-based) da regra */
+  path: string;
+  line: number;
+}
+interface NoteRuleError { path: string; line: number; message: string; }
+
+/** Backup no cofre, lido para a listagem e a retenção (`settings` null = arquivo ilegível) */
+interface BackupInfo { file: TFile; savedAt: number; hash: string; reason: string; settings: unknown }
+/** last: mantém os N mais recentes; calendar: o mais recente de cada um dos últimos dias e semanas */
+type BackupRetention = 'last' | 'calendar'
+
+type MergeStatus = 'new' | 'identical' | 'conflict'
+/** new: 'theirs' (importar) ou 'skip'; conflict: 'mine', 'theirs' (substitui no lugar) ou 'both' (adiciona cópia) */
+type MergeChoice = 'mine' | 'theirs' | 'both' | 'skip'
+/** Item recebido num import, comparado com o atual por id e depois por conteúdo */
+interface MergeEntry<T> {
+  incoming: T;
+  mine?: T;
+  status: MergeStatus;
+  choice: MergeChoice;
+  /** Ligação que não pode entrar: o padrão ou o replacer dela não foi importado */
+  blocked?: boolean;
+}
+
+type LintKind = 'regex' | 'group-ref' | 'orphan' | 'dangling' | 'shadowed' | 'duplicate'
+/** Problema encontrado por lintRules: uma regra que nunca dispara ou não faz o esperado */
+interface LintIssue { kind: LintKind; message: string; patternId?: Id; replacerId?: Id; linkId?: Id; }
+
+/** Regra de saída: transforma o texto copiado/recortado de uma nota */
+interface OutboundRule {
+  id: Id;
+  pattern: string;
+  flags?: string;
+  replacer: string;
+  /** Sabor do clipboard que a regra escreve: texto puro ou HTML */
+  flavor: 'text' | 'html';
+  enabled: boolean;
+  comment?: string;
+}
+
+/** Perfil nomeado: conjunto próprio de ligações habilitadas */
+interface RuleProfile {
+  id: Id;
+  name: string;
+  /** Ligações habilitadas no perfil; enquanto ele está ativo, substitui `LinkItem.enabled` */
+  enabledLinks: Id[];
+  /** Pasta/glob: com a escolha automática ligada, o perfil vale para as notas desta pasta */
+  folder?: string;
 }
 
 /** ===== Settings ===== */
@@ -31,19 +276,76 @@ interface PasteTransformSettings {
   patterns: PatternItem[] | string[];
   replacers: ReplacerItem[] | string[];
   links?: LinkItem[];
+  /** Regras aplicadas ao copiar/recortar de uma nota */
+  outbound: OutboundRule[];
   enabled?: boolean[];   // legado
   comments?: string[];   // legado
   settingsFormatVersion: number;
   debugMode: boolean;
+  /** Aplica o pipeline a cada linha de um texto com várias linhas e junta os resultados */
+  perLine: boolean;
+  /** Abre o "Paste as…" ao colar quando mais de uma regra casa */
+  pickerOnMultipleMatches: boolean;
+  /** Tempo máximo de cada regex num paste protegido (0 = sem proteção) */
+  regexBudgetMs: number;
+  /** Tamanho do clipboard (caracteres) a partir do qual o paste é protegido */
+  regexGuardMinLength: number;
+  /** Tempo máximo de cada execução de um replacer script */
+  scriptTimeoutMs: number;
+  /** Tempo máximo de espera por uma página em replacers `fetch` */
+  fetchTimeoutMs: number;
+  /** Cache local de replacers `fetch` por campo + URL (fica fora de exportações e backups) */
+  fetchCache: Record<string, { value: string; at: number }>;
   /** Ativo/Desativado (controlado por hotkey, status bar e settings) */
   active: boolean;
+  profiles: RuleProfile[];
+  /** Perfil escolhido (null = sem perfil: vale o `enabled` de cada ligação) */
+  activeProfileId: Id | null;
+  /** Escolhe o perfil pela pasta da nota ativa (`RuleProfile.folder`) */
+  autoProfileByFolder: boolean;
+  /** Notas com blocos `paste-transform`; suas regras entram depois das ligações, na ordem da lista */
+  ruleNotes: string[];
+  /** Pasta dos backups no cofre */
+  backupFolder: string;
+  /** Backup automático uma vez por dia */
+  dailyBackup: boolean;
+  backupRetention: BackupRetention;
+  /** Retenção `last`: quantos manter (0 = todos) */
+  backupKeepLast: number;
+  /** Retenção `calendar`: quantos dias e semanas manter */
+  backupKeepDaily: number;
+  backupKeepWeekly: number;
+  /** Registra uso por ligação ao colar (contagem, último uso, amostras) */
+  trackUsage: boolean;
+  /** Quantas entradas de exemplo guardar por ligação (0 = nenhuma) */
+  usageSamples: number;
+  /** Quando o registro de uso foi ligado; regras nunca usadas só contam como paradas depois disso */
+  usageSince: number;
+  /** Uso por id de ligação (dado local: fica fora de exportações e backups) */
+  usage: Record<Id, RuleUsage>;
+  /** Últimos pastes transformados, do mais recente ao mais antigo */
+  history: HistoryEntry[];
+  /** Tamanho máximo do histórico (0 = não registrar) */
+  historySize: number;
+  /** Inclui o histórico em exportações e backups */
+  historyInExports: boolean;
 }
 
 /** ===== Defaults ===== */
+/** Mensagem de um erro capturado (Error ou qualquer valor lançado) */
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : `${e}`
+}
+
 function uid(prefix = 'id'): Id {
   return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
 }
 
+/** Cópia independente dos padrões: arrays e objetos editados no lugar não podem alterar DEFAULT_SETTINGS */
+function defaultSettings(): PasteTransformSettings {
+  return JSON.parse(JSON.stringify(DEFAULT_SETTINGS))
+}
+
 const DEFAULT_SETTINGS: PasteTransformSettings = {
   patterns: [
     { id: uid('p'), text: "^https://github.com/[^/]+/([^/]+)/issues/(\\d+)$" },
@@ -55,36 +357,939 @@ const DEFAULT_SETTINGS: PasteTransformSettings = {
     { id: uid('r'), text: "[🐈‍⬛🔨 $1#$2]($&)" },
     { id: uid('r'), text: "[🐈‍⬛🛠︎ $1#$2]($&)" },
     { id: uid('r'), text: "[🐈‍⬛ $1]($&)" },
-    { id: uid('r'), text: "[📖 $1]($&)" },
+    { id: uid('r'), text: "[📖 {{1|urldecode|replace:_: }}]($&)" },
   ],
   links: [],
-  settingsFormatVersion: 300,
+  outbound: [
+    { id: uid('o'), pattern: "\\[[^\\]]*\\]\\((https?://[^)\\s]+)\\)", replacer: "$1", flavor: 'text', enabled: false, comment: "Link Markdown → URL" },
+    { id: uid('o'), pattern: "\\[🐈‍⬛\\S* ([^\\]]+)\\]\\([^)]+\\)", replacer: "$1", flavor: 'text', enabled: false, comment: "Link curto do GitHub → repo#12" },
+  ],
+  settingsFormatVersion: 301,
   debugMode: false,
+  perLine: false,
+  pickerOnMultipleMatches: false,
+  regexBudgetMs: 500,
+  regexGuardMinLength: 1000,
+  scriptTimeoutMs: 100,
+  fetchTimeoutMs: 5000,
+  fetchCache: {},
   active: true,
+  profiles: [],
+  activeProfileId: null,
+  autoProfileByFolder: false,
+  ruleNotes: [],
+  backupFolder: "PasteTransform Backups",
+  dailyBackup: false,
+  backupRetention: 'last',
+  backupKeepLast: 20,
+  backupKeepDaily: 7,
+  backupKeepWeekly: 4,
+  trackUsage: false,
+  usageSamples: 3,
+  usageSince: 0,
+  usage: {},
+  history: [],
+  historySize: 50,
+  historyInExports: false,
+}
+
+/** Versão atual do formato dos settings; dados mais novos são recusados */
+const SETTINGS_FORMAT_VERSION = 301
+
+/** Migrações em ordem de versão: cada uma recebe os dados na versão anterior e os deixa em `to`.
+ *  Os dados ainda não têm o formato de PasteTransformSettings, daí o `any`. */
+const SETTINGS_MIGRATIONS: { to: number; run: (s: Record<string, any>) => void }[] = [
+  // v1 (1×1): listas paralelas de strings → v300 (N×N) com ids e ligações
+  {
+    to: 300,
+    run: s => {
+      const patterns: PatternItem[] = (Array.isArray(s.patterns) ? s.patterns : []).map((t: string) => ({ id: uid('p'), text: t }))
+      const replacers: ReplacerItem[] = (Array.isArray(s.replacers) ? s.replacers : []).map((t: string) => ({ id: uid('r'), text: t }))
+      const n = Math.min(patterns.length, replacers.length)
+      const links: LinkItem[] = []
+      for (let i = 0; i < n; i++) {
+        const enabled = Array.isArray(s.enabled) && typeof s.enabled[i] === 'boolean' ? !!s.enabled[i] : true
+        const comment = Array.isArray(s.comments) && typeof s.comments[i] === 'string' ? s.comments[i] : ""
+        links.push({ id: uid('link'), patternId: patterns[i].id, replacerId: replacers[i].id, enabled, comment })
+      }
+      s.patterns = patterns
+      s.replacers = replacers
+      s.links = links
+      delete s.enabled
+      delete s.comments
+    },
+  },
+  // v300 → v301: itens sem id (editados à mão) ganham um; `links` ausente vira lista vazia
+  {
+    to: 301,
+    run: s => {
+      for (const p of Array.isArray(s.patterns) ? s.patterns : []) if (p && typeof p === 'object' && !p.id) p.id = uid('p')
+      for (const r of Array.isArray(s.replacers) ? s.replacers : []) if (r && typeof r === 'object' && !r.id) r.id = uid('r')
+      if (!Array.isArray(s.links)) s.links = []
+    },
+  },
+]
+
+/** Versão dos dados; os anteriores ao campo são reconhecidos pelo formato dos padrões */
+function settingsVersion(raw: Record<string, unknown>): number {
+  if (typeof raw.settingsFormatVersion === 'number') return raw.settingsFormatVersion
+  const first = Array.isArray(raw.patterns) ? raw.patterns[0] : undefined
+  return first !== undefined && typeof first === 'object' ? 300 : 1
+}
+
+/** Validador de um campo: acrescenta em `out` os problemas encontrados em `path` */
+type Schema = (v: unknown, path: string, out: string[]) => void
+
+const describeValue = (v: unknown) => v === null ? "null" : Array.isArray(v) ? "lista" : typeof v === 'string' ? `"${v.slice(0, 30)}"` : `${typeof v} ${JSON.stringify(v)?.slice(0, 30) ?? ""}`
+const check = (expected: string, ok: (v: unknown) => boolean): Schema => (v, path, out) => {
+  if (!ok(v)) out.push(`${path}: esperado ${expected}, recebido ${describeValue(v)}`)
+}
+const sStr = check("texto", v => typeof v === 'string')
+const sId = check("id (texto não vazio)", v => typeof v === 'string' && v.length > 0)
+const sBool = check("true/false", v => typeof v === 'boolean')
+const sNum = check("número ≥ 0", v => typeof v === 'number' && Number.isFinite(v) && v >= 0)
+const sRecord = check("objeto", v => !!v && typeof v === 'object' && !Array.isArray(v))
+const sOneOf = (values: readonly string[]): Schema => check(values.map(x => `"${x}"`).join(" | "), v => typeof v === 'string' && values.includes(v))
+const sNullable = (inner: Schema): Schema => (v, path, out) => { if (v !== null) inner(v, path, out) }
+const sList = (item: Schema): Schema => (v, path, out) => {
+  if (!Array.isArray(v)) { out.push(`${path}: esperado lista, recebido ${describeValue(v)}`); return }
+  v.forEach((x, i) => item(x, `${path}[${i}]`, out))
+}
+/** Campos terminados em `?` são opcionais; campos desconhecidos são ignorados */
+const sObject = (fields: Record<string, Schema>): Schema => (v, path, out) => {
+  if (!v || typeof v !== 'object' || Array.isArray(v)) { out.push(`${path || "settings"}: esperado objeto, recebido ${describeValue(v)}`); return }
+  for (const [name, inner] of Object.entries(fields)) {
+    const optional = name.endsWith("?")
+    const key = optional ? name.slice(0, -1) : name
+    const at = path ? `${path}.${key}` : key
+    const value = (v as Record<string, unknown>)[key]
+    if (value === undefined) {
+      if (!optional) out.push(`${at}: campo obrigatório ausente`)
+      continue
+    }
+    inner(value, at, out)
+  }
+}
+
+const SETTINGS_SCHEMA: Schema = sObject({
+  settingsFormatVersion: sNum,
+  patterns: sList(sObject({ id: sId, text: sStr, "flags?": sStr })),
+  replacers: sList(sObject({
+    id: sId, text: sStr,
+    "type?": sOneOf(['text', 'script', 'fetch']),
+    "fetchField?": sOneOf(FETCH_FIELDS),
+    "fallback?": sStr,
+  })),
+  links: sList(sObject({
+    id: sId, patternId: sId, replacerId: sId, enabled: sBool,
+    "comment?": sStr,
+    "continue?": sBool,
+    "flavor?": sOneOf(Object.keys(FLAVOR_LABELS)),
+    "scope?": sObject({ "folder?": sStr, "tag?": sStr, "frontmatterKey?": sStr, "frontmatterValue?": sStr }),
+    "blockedContexts?": sList(sOneOf(Object.keys(MD_CONTEXT_LABELS))),
+    "tests?": sList(sObject({ input: sStr, expected: sStr })),
+    "mustNotMatch?": sList(sStr),
+  })),
+  outbound: sList(sObject({
+    id: sId, pattern: sStr, "flags?": sStr, replacer: sStr, flavor: sOneOf(['text', 'html']), enabled: sBool, "comment?": sStr,
+  })),
+  profiles: sList(sObject({ id: sId, name: sStr, enabledLinks: sList(sStr), "folder?": sStr })),
+  activeProfileId: sNullable(sStr),
+  ruleNotes: sList(sStr),
+  backupFolder: sStr,
+  dailyBackup: sBool,
+  backupRetention: sOneOf(['last', 'calendar']),
+  backupKeepLast: sNum,
+  backupKeepDaily: sNum,
+  backupKeepWeekly: sNum,
+  trackUsage: sBool,
+  usageSamples: sNum,
+  usageSince: sNum,
+  usage: sRecord,
+  history: sList(sObject({ at: sNum, path: sStr, input: sStr, output: sStr, linkIds: sList(sStr), rules: sList(sStr), "truncated?": sBool })),
+  historySize: sNum,
+  historyInExports: sBool,
+  fetchCache: sRecord,
+  debugMode: sBool,
+  perLine: sBool,
+  pickerOnMultipleMatches: sBool,
+  active: sBool,
+  autoProfileByFolder: sBool,
+  regexBudgetMs: sNum,
+  regexGuardMinLength: sNum,
+  scriptTimeoutMs: sNum,
+  fetchTimeoutMs: sNum,
+})
+
+/** Lista os campos inválidos, como `links[2].flavor: esperado …` */
+function validateSettings(s: PasteTransformSettings): string[] {
+  const out: string[] = []
+  SETTINGS_SCHEMA(s, "", out)
+  return out
+}
+
+/** Carimbo de data/hora para nomes de arquivo: 2024-05-01_09-30-00 */
+function fileStamp(d: Date): string {
+  const pad = (n: number) => `${n}`.padStart(2, '0')
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}_${pad(d.getHours())}-${pad(d.getMinutes())}-${pad(d.getSeconds())}`
+}
+
+/** FNV-1a de 32 bits em hex: identifica backups iguais */
+function hashString(text: string): string {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return (h >>> 0).toString(16).padStart(8, "0")
+}
+
+/** Pasta dos relatórios de transformação em massa */
+const REPORT_FOLDER = "PasteTransform Reports"
+/** Linguagem do bloco de código com o snapshot dentro do relatório */
+const SNAPSHOT_BLOCK = "paste-transform-snapshot"
+
+/** Limite de entradas no cache de `fetch`; as mais antigas saem primeiro */
+const FETCH_CACHE_MAX = 500
+
+/** Flags aceitas por padrão; `g` é implícita e `y` quebraria o `search` */
+const PATTERN_FLAGS = "imsu"
+
+/** Normaliza as flags de um padrão: remove `g`, duplicadas e ordena. Lança erro se houver flag inválida. */
+function normalizeFlags(flags: string | undefined): string {
+  const out: string[] = []
+  for (const f of (flags || "").replace(/[\sg]/g, "")) {
+    if (!PATTERN_FLAGS.includes(f)) throw new Error(`Flag inválida: "${f}" (use ${PATTERN_FLAGS.split("").join(", ")})`)
+    if (!out.includes(f)) out.push(f)
+  }
+  return out.sort().join("")
+}
+
+/** Move o item `fromId` para antes/depois de `toId`; retorna false se nada mudou */
+function moveById<T extends { id: Id }>(arr: T[], fromId: Id, toId: Id, after: boolean): boolean {
+  if (fromId === toId) return false
+  const from = arr.findIndex(x => x.id === fromId)
+  if (from < 0 || !arr.some(x => x.id === toId)) return false
+  const [item] = arr.splice(from, 1)
+  const to = arr.findIndex(x => x.id === toId) + (after ? 1 : 0)
+  arr.splice(to, 0, item)
+  return to !== from
+}
+
+/** Glob de caminho → RegExp (`**` atravessa pastas, `*` e `?` não) */
+function globToRegExp(glob: string): RegExp {
+  let g = glob.trim().replace(/^\/+/, "")
+  if (!/[*?]/.test(g)) g = g.replace(/\/*$/, "/**")
+  let re = ""
+  for (let i = 0; i < g.length; i++) {
+    const c = g[i]
+    if (c === "*" && g[i + 1] === "*") { re += ".*"; i++ }
+    else if (c === "*") re += "[^/]*"
+    else if (c === "?") re += "[^/]"
+    else re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+  }
+  return new RegExp(`^${re}$`)
+}
+
+function isEmptyScope(scope?: RuleScope): boolean {
+  return !scope || (!scope.folder?.trim() && !scope.tag?.trim() && !scope.frontmatterKey?.trim())
+}
+
+function describeScope(scope?: RuleScope): string {
+  if (isEmptyScope(scope) || !scope) return ""
+  const parts: string[] = []
+  if (scope.folder?.trim()) parts.push(`📁 ${scope.folder.trim()}`)
+  if (scope.tag?.trim()) parts.push(`#${scope.tag.trim().replace(/^#/, "")}`)
+  if (scope.frontmatterKey?.trim()) {
+    parts.push(`${scope.frontmatterKey.trim()}${scope.frontmatterValue?.trim() ? `=${scope.frontmatterValue.trim()}` : ""}`)
+  }
+  return parts.join(" · ")
+}
+
+function matchesScope(scope: RuleScope | undefined, ctx: PasteContext): boolean {
+  if (isEmptyScope(scope) || !scope) return true
+  const file = ctx.file
+  if (!file) return false
+  if (scope.folder?.trim()) {
+    try { if (!globToRegExp(scope.folder).test(file.path)) return false }
+    catch { return false }
+  }
+  const tag = scope.tag?.trim().replace(/^#/, "").toLowerCase()
+  if (tag) {
+    const tags = file.tags.map(t => t.replace(/^#/, "").toLowerCase())
+    if (!tags.some(t => t === tag || t.startsWith(`${tag}/`))) return false
+  }
+  const key = scope.frontmatterKey?.trim()
+  if (key) {
+    if (!(key in file.frontmatter)) return false
+    const want = scope.frontmatterValue?.trim()
+    if (want) {
+      const have = file.frontmatter[key]
+      const values = Array.isArray(have) ? have : [have]
+      if (!values.some(v => `${v}` === want)) return false
+    }
+  }
+  return true
+}
+
+/** Detecta o contexto Markdown na posição `offset` do documento */
+function detectMarkdownContext(doc: string, offset: number): MdContext {
+  const text = doc.replace(/\r/g, "")
+  const before = text.slice(0, offset)
+  const lines = before.split("\n")
+  const lineStart = before.length - lines[lines.length - 1].length
+  const lineEnd = text.indexOf("\n", lineStart)
+  const current = lines[lines.length - 1]
+  const fullLine = text.slice(lineStart, lineEnd === -1 ? undefined : lineEnd)
+
+  // Frontmatter: a nota começa com --- e o bloco ainda não fechou antes do cursor
+  if (lines.length > 1 && lines[0] === "---" && !lines.slice(1, -1).some(l => l === "---" || l === "...")) return 'frontmatter'
+
+  // Bloco cercado: abre com ``` ou ~~~, fecha com cerca igual ou maior do mesmo caractere
+  let fence: string | null = null
+  for (const line of lines.slice(0, -1)) {
+    const m = line.match(/^\s{0,3}(`{3,}|~{3,})(.*)$/)
+    if (!m) continue
+    if (!fence) fence = m[1]
+    else if (m[1][0] === fence[0] && m[1].length >= fence.length && !m[2].trim()) fence = null
+  }
+  if (fence) return 'codeblock'
+
+  // Código inline: uma sequência de crases aberta e não fechada antes do cursor
+  let open = 0
+  for (const run of current.match(/`+/g) ?? []) {
+    if (!open) open = run.length
+    else if (run.length === open) open = 0
+  }
+  if (open) return 'inline-code'
+
+  if (/\]\([^)\s]*$/.test(current)) return 'link-destination'
+  if (/^\s*\|/.test(fullLine)) return 'table'
+  if (/^\s{0,3}#{1,6}(\s|$)/.test(fullLine)) return 'heading'
+  return 'text'
+}
+
+/** Argumentos do callback de String.replace: match, grupos, offset, entrada e, se houver, os nomeados */
+function matchInfoFromArgs(args: unknown[]): MatchInfo {
+  const a = args.slice()
+  const named = typeof a[a.length - 1] === 'object' ? a.pop() as MatchInfo['named'] : undefined
+  const input = a.pop() as string
+  const offset = a.pop() as number
+  const [match, ...groups] = a as (string | undefined)[]
+  return { match: match ?? "", groups, named, offset, input }
+}
+
+/** Variáveis `{{...}}` dos replacers; retorna undefined para nomes desconhecidos */
+function resolveVariable(name: string, ctx: PasteContext): string | undefined {
+  const [head, ...rest] = name.split(":")
+  const arg = rest.join(":").trim()
+  const path = ctx.file?.path ?? ""
+  const fileName = path.split("/").pop() ?? ""
+  switch (head.trim()) {
+    case "selection": return ctx.selection ?? ""
+    case "clipboard": return ctx.clipboard ?? ""
+    case "title": return ctx.fetched
+    case "date": return moment().format(arg || "YYYY-MM-DD")
+    case "file.path": return path
+    case "file.name": return fileName
+    case "file.basename": return fileName.replace(/\.[^.]*$/, "")
+    case "file.folder": return path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : ""
+  }
+  if (name.startsWith("frontmatter.")) {
+    const v = ctx.file?.frontmatter[name.slice("frontmatter.".length).trim()]
+    if (v == null) return ""
+    return Array.isArray(v) ? v.join(", ") : `${v}`
+  }
+  return undefined
+}
+
+function toInt(arg: string | undefined, filter: string): number {
+  const n = Number(arg)
+  if (!arg || !Number.isInteger(n) || n < 0) throw new Error(`Filtro "${filter}": esperado um número inteiro, recebido "${arg ?? ""}"`)
+  return n
+}
+
+/** Filtros de `{{valor|filtro:arg1:arg2}}`; argumentos separados por `:` */
+const FILTERS: Record<string, (v: string, args: string[]) => string> = {
+  urldecode: v => {
+    try { return decodeURIComponent(v.replace(/\+/g, " ")) }
+    catch { throw new Error(`Filtro "urldecode": sequência inválida em "${v}"`) }
+  },
+  urlencode: v => encodeURIComponent(v),
+  upper: v => v.toUpperCase(),
+  lower: v => v.toLowerCase(),
+  title: v => v.toLowerCase().replace(/(^|[\s\-_/])(\S)/g, (_, sep: string, c: string) => sep + c.toUpperCase()),
+  slugify: v => v.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, ""),
+  trim: v => v.trim(),
+  truncate: (v, [n, suffix = "…"]) => {
+    const max = toInt(n, "truncate")
+    return v.length > max ? v.slice(0, max) + suffix : v
+  },
+  htmldecode: v => new DOMParser().parseFromString(v, "text/html").documentElement.textContent ?? v,
+  pad: (v, [n, ch = "0"]) => v.padStart(toInt(n, "pad"), ch || "0"),
+  replace: (v, [from, to = ""]) => {
+    if (!from) throw new Error(`Filtro "replace": informe o texto a substituir (replace:de:para)`)
+    return v.split(from).join(to)
+  },
+  default: (v, args) => v || args.join(":"),
+}
+
+/** Valor de `{{cabeça|filtros}}`: grupo numérico, `&`, grupo nomeado ou variável */
+function resolveExpression(expr: string, m: MatchInfo, ctx: PasteContext): string | undefined {
+  const [head, ...filters] = expr.split("|")
+  const name = head.trim()
+  let value: string | undefined
+  if (/^\d+$/.test(name)) {
+    const n = Number(name)
+    if (n > m.groups.length) throw new Error(`Grupo ${n} não existe (o padrão tem ${m.groups.length})`)
+    value = n === 0 ? m.match : m.groups[n - 1] ?? ""
+  } else if (name === "&") value = m.match
+  else if (m.named && name in m.named) value = m.named[name] ?? ""
+  else value = resolveVariable(name, ctx)
+
+  if (value === undefined) {
+    if (filters.length) throw new Error(`Variável desconhecida: "${name}"`)
+    return undefined
+  }
+  for (const f of filters) {
+    const [fname, ...args] = f.split(":")
+    const fn = FILTERS[fname.trim()]
+    if (!fn) throw new Error(`Filtro desconhecido: "${fname.trim()}" (disponíveis: ${Object.keys(FILTERS).join(", ")})`)
+    value = fn(value, args)
+  }
+  return value
+}
+
+/** Expande um replacer: `$1`, `$&`, `$<nome>`… como em String.replace, mais `{{expressões|filtros}}`
+ *  e `$text` (texto do link em regras `anchor`). Os valores inseridos não são reinterpretados. */
+function expandReplacement(template: string, m: MatchInfo, ctx: PasteContext, anchor?: PasteInput['anchor']): string {
+  return template.replace(/\$(\$|&|`|'|text|\d{1,2}|<[^>]*>)|\{\{([^{}]*)\}\}/g, (tok: string, ref?: string, variable?: string) => {
+    if (variable !== undefined) return resolveExpression(variable, m, ctx) ?? tok
+    switch (ref) {
+      case "$": return "$"
+      case "&": return m.match
+      case "`": return m.input.slice(0, m.offset)
+      case "'": return m.input.slice(m.offset + m.match.length)
+      case "text": return anchor ? anchor.text : tok
+    }
+    if (ref?.startsWith("<")) {
+      if (!m.named) return tok
+      return m.named[ref.slice(1, -1)] ?? ""
+    }
+    // $nn só vale se o grupo existir; senão é $n seguido de um dígito literal
+    const n = Number(ref)
+    if (n >= 1 && n <= m.groups.length) return m.groups[n - 1] ?? ""
+    const one = Number(ref?.[0])
+    if (ref && ref.length === 2 && one >= 1 && one <= m.groups.length) return (m.groups[one - 1] ?? "") + ref[1]
+    return tok
+  })
+}
+
+/** Replacer script compilado: recebe a ocorrência e o contexto, devolve o texto */
+type ScriptFn = (m: MatchInfo, ctx: PasteContext) => string
+
+/** Nomes globais escondidos do script (parâmetros undefined). Não é um sandbox de segurança:
+ *  só evita acesso acidental ao app/DOM. */
+const SCRIPT_SHADOWED = [
+  "window", "document", "globalThis", "self", "app", "require", "process", "module",
+  "fetch", "XMLHttpRequest", "WebSocket", "localStorage", "setTimeout", "setInterval", "Function",
+]
+const SCRIPT_GUARD = "__ptGuard"
+/** Palavras depois das quais `/` abre uma regex, não uma divisão */
+const KEYWORDS_BEFORE_REGEX = /(?:^|[^\w$])(?:return|typeof|instanceof|case|do|else|in|of|new|delete|void|throw|yield|await)$/
+
+/** Insere `__ptGuard()` na condição de cada `while`/`for(;;)` para o timeout interromper loops */
+function instrumentLoops(src: string): string {
+  let out = ""
+  let i = 0
+  // `/` em `j` abre uma regex? Decide pelo que vem antes (operador, pontuação ou palavra-chave)
+  const regexAllowed = (j: number): boolean => {
+    let p = j - 1
+    while (p >= 0 && /\s/.test(src[p])) p--
+    if (p < 0) return true
+    if (src[p] === "/") return src[p - 1] === "*" // fim de comentário
+    if ("(,=:[!&|?{};+-*%<>~^".includes(src[p])) return true
+    return KEYWORDS_BEFORE_REGEX.test(src.slice(Math.max(0, p - 10), p + 1))
+  }
+  // Avança sobre string/template/regex/comentário a partir de `j`; retorna o índice seguinte
+  const skip = (j: number): number => {
+    const c = src[j]
+    if (c === "/" && src[j + 1] === "/") { const e = src.indexOf("\n", j); return e === -1 ? src.length : e }
+    if (c === "/" && src[j + 1] === "*") { const e = src.indexOf("*/", j + 2); return e === -1 ? src.length : e + 2 }
+    if (c === "/" && regexAllowed(j)) {
+      // Regex literal: aspas e `/` dentro de [...] não encerram nada
+      let k = j + 1, inClass = false
+      while (k < src.length && src[k] !== "\n") {
+        if (src[k] === "\\") { k += 2; continue }
+        if (src[k] === "[") inClass = true
+        else if (src[k] === "]") inClass = false
+        else if (src[k] === "/" && !inClass) break
+        k++
+      }
+      k++
+      while (k < src.length && /[a-z]/i.test(src[k])) k++
+      return k
+    }
+    if (c === '"' || c === "'" || c === "`") {
+      let k = j + 1
+      while (k < src.length && src[k] !== c) k += src[k] === "\\" ? 2 : 1
+      return k + 1
+    }
+    return j
+  }
+  while (i < src.length) {
+    const next = skip(i)
+    if (next !== i) { out += src.slice(i, next); i = next; continue }
+    const kw = /^(while|for)\s*\(/.exec(src.slice(i, i + 12))
+    if (!kw || /[\w$.]/.test(src[i - 1] ?? "")) { out += src[i++]; continue }
+    // Encontra o `)` correspondente e os `;` de primeiro nível
+    const open = i + kw[0].length - 1
+    const semis: number[] = []
+    let depth = 0, k = open
+    for (; k < src.length; k++) {
+      const n = skip(k)
+      if (n !== k) { k = n - 1; continue }
+      if ("([{".includes(src[k])) depth++
+      else if (")]}".includes(src[k]) && --depth === 0) break
+      else if (src[k] === ";" && depth === 1) semis.push(k)
+    }
+    if (k >= src.length) { out += src.slice(i); break }
+    if (kw[1] === "while") {
+      out += `${src.slice(i, open + 1)}${SCRIPT_GUARD}() && (${src.slice(open + 1, k)})`
+    } else if (semis.length === 2) {
+      const test = src.slice(semis[0] + 1, semis[1])
+      out += `${src.slice(i, semis[0] + 1)} ${test.trim() ? `${SCRIPT_GUARD}() && (${test})` : `${SCRIPT_GUARD}()`}${src.slice(semis[1], k)}`
+    } else {
+      out += src.slice(i, k) // for…in / for…of: iteração finita
+    }
+    i = k
+  }
+  return out
+}
+
+/** Compila o corpo de um replacer script. Lança SyntaxError se o código não compilar. */
+function compileScript(body: string, timeoutMs: number): ScriptFn {
+  const fn = new Function("match", "groups", "named", "ctx", SCRIPT_GUARD, ...SCRIPT_SHADOWED, `"use strict";\n${instrumentLoops(body)}`)
+  return (m, ctx) => {
+    const deadline = Date.now() + timeoutMs
+    let ticks = 0
+    const guard = () => {
+      if ((++ticks & 1023) === 0 && Date.now() > deadline) throw new Error(`Script excedeu ${timeoutMs} ms`)
+      return true
+    }
+    const scope = JSON.parse(JSON.stringify(ctx))
+    const out = fn.call(undefined, m.match, m.groups.slice(), Object.assign({}, m.named), scope, guard)
+    if (Date.now() > deadline) throw new Error(`Script excedeu ${timeoutMs} ms`)
+    return out == null ? "" : `${out}`
+  }
+}
+
+/** Aplica as substituições (sem sobreposição) de scanText ao texto de origem */
+function applyMatches(text: string, matches: ScanMatch[]): string {
+  let out = text
+  for (const m of matches.slice().sort((a, b) => b.from - a.from)) out = out.slice(0, m.from) + m.after + out.slice(m.to)
+  return out
+}
+
+/** Divide duas strings em prefixo comum, trechos diferentes e sufixo comum (diff simples para testes) */
+function diffStrings(a: string, b: string): { prefix: string; a: string; b: string; suffix: string } {
+  let i = 0
+  while (i < a.length && i < b.length && a[i] === b[i]) i++
+  let j = 0
+  while (j < a.length - i && j < b.length - i && a[a.length - 1 - j] === b[b.length - 1 - j]) j++
+  return { prefix: a.slice(0, i), a: a.slice(i, a.length - j), b: b.slice(i, b.length - j), suffix: a.slice(a.length - j) }
+}
+
+/** Monta o PasteInput; o link do HTML só é extraído quando há exatamente um `<a href>` */
+function readPasteInput(text: string, html?: string): PasteInput {
+  const input: PasteInput = { text }
+  if (!html) return input
+  input.html = html
+  const anchors = new DOMParser().parseFromString(html, "text/html").querySelectorAll("a[href]")
+  if (anchors.length === 1) {
+    const a = anchors[0]
+    input.anchor = { href: a.getAttribute("href") || "", text: (a.textContent || "").trim() }
+  }
+  return input
 }
 
 class ReplaceRule {
   pattern: RegExp
   replacer: string
-  constructor(pattern: string, replacer: string) {
-    this.pattern = new RegExp(pattern, 'g')
-    this.replacer = replacer
+  script?: ScriptFn
+  fetch?: { field: FetchField; fallback: string }
+  linkId: Id
+  continue: boolean
+  flavor: ClipboardFlavor
+  scope?: RuleScope
+  blockedContexts: MdContext[]
+  constructor(p: PatternItem, r: ReplacerItem, L: LinkItem, script?: ScriptFn) {
+    this.pattern = new RegExp(p.text, 'g' + normalizeFlags(p.flags))
+    this.replacer = r.text
+    this.script = script
+    if (r.type === 'fetch') this.fetch = { field: r.fetchField ?? 'title', fallback: r.fallback || "$&" }
+    this.linkId = L.id
+    // O placeholder de um `fetch` não pode alimentar outras regras
+    this.continue = !!L.continue && !this.fetch
+    this.flavor = L.flavor ?? 'text'
+    this.scope = L.scope
+    this.blockedContexts = L.blockedContexts ?? DEFAULT_BLOCKED_CONTEXTS
+  }
+
+  /** A regra vale para esta nota e para o contexto do cursor? */
+  appliesTo(ctx: PasteContext): boolean {
+    if (ctx.ignoreScope) return true
+    return !this.blockedContexts.includes(ctx.md ?? 'text') && matchesScope(this.scope, ctx)
+  }
+
+  /** Texto que a regra lê; depois da primeira etapa do pipeline só resta texto puro */
+  subject(input: PasteInput, current: string, first: boolean): string | undefined {
+    if (this.flavor === 'text') return current
+    if (!first) return undefined
+    return this.flavor === 'html' ? input.html : input.anchor?.href
+  }
+
+  apply(subject: string, input: PasteInput, ctx: PasteContext, jobs?: FetchJob[]): string {
+    return subject.replace(this.pattern, (...args: unknown[]) => this.render(matchInfoFromArgs(args), input, ctx, jobs))
+  }
+
+  /** Como apply(), com as ocorrências já encontradas (no RegexGuard) em vez de rodar a regex aqui */
+  applyMatches(subject: string, matches: MatchInfo[], input: PasteInput, ctx: PasteContext, jobs?: FetchJob[]): string {
+    let out = ""
+    let last = 0
+    for (const m of matches) {
+      out += subject.slice(last, m.offset) + this.render(m, input, ctx, jobs)
+      last = m.offset + m.match.length
+    }
+    return out + subject.slice(last)
+  }
+
+  /** Substituição de uma ocorrência. Sem `jobs`, replacers `fetch` devolvem direto o fallback. */
+  render(m: MatchInfo, input: PasteInput, ctx: PasteContext, jobs?: FetchJob[]): string {
+    const anchor = this.flavor === 'anchor' ? input.anchor : undefined
+    if (this.script) return this.script(m, ctx)
+    if (!this.fetch) return expandReplacement(this.replacer, m, ctx, anchor)
+    const fallback = expandReplacement(this.fetch.fallback, m, ctx, anchor)
+    if (!jobs) return fallback
+    const placeholder = `⏳${fallback}`
+    jobs.push({
+      placeholder,
+      fallback,
+      url: m.match,
+      field: this.fetch.field,
+      render: value => expandReplacement(this.replacer, m, Object.assign({}, ctx, { fetched: value }), anchor),
+    })
+    return placeholder
+  }
+}
+
+/** Linguagem dos blocos cercados com regras dentro de uma nota */
+const RULES_BLOCK = "paste-transform"
+
+/** Ids de regras de notas começam com `file:` (uid usa `-` depois do prefixo) */
+function isNoteRuleId(id: Id): boolean {
+  return id.startsWith("file:")
+}
+
+/** Lê as regras dos blocos ```paste-transform``` de uma nota. Cada bloco é YAML: uma regra ou uma lista
+ *  de regras com `pattern`, `replacer` e, opcionais, `flags`, `comment`, `type`, `continue`, `flavor`
+ *  e `enabled`. Os ids são `file:<caminho>:<n>` (n = posição na nota), estáveis entre recargas. */
+function parseRuleNote(path: string, content: string): { rules: NoteRule[]; errors: NoteRuleError[] } {
+  const rules: NoteRule[] = []
+  const errors: NoteRuleError[] = []
+  const lines = content.split(/\r?\n/)
+  let index = 0
+  for (let i = 0; i < lines.length; i++) {
+    const open = lines[i].match(/^\s{0,3}(`{3,}|~{3,})\s*(\S*)\s*$/)
+    if (!open) continue
+    const fence = open[1]
+    let end = i + 1
+    while (end < lines.length && !(lines[end].trim().startsWith(fence) && /^(`+|~+)$/.test(lines[end].trim()))) end++
+    const body = lines.slice(i + 1, end)
+    const start = i + 2 // primeira linha do corpo, 1-based
+    i = end
+    if (open[2] !== RULES_BLOCK) continue
+
+    let data: unknown
+    try { data = parseYaml(body.join("\n")) }
+    catch (e) {
+      // Erros do parser YAML trazem a linha (mark) e a causa sem o trecho citado (reason)
+      const yaml = e as { mark?: { line?: number }; reason?: string } | null
+      errors.push({ path, line: start + (yaml?.mark?.line ?? 0), message: `YAML: ${yaml?.reason ?? errorMessage(e)}` })
+      continue
+    }
+    if (data == null) continue
+    const entries: unknown[] = Array.isArray(data) ? data : [data]
+    // Linha de cada item da lista (itens de topo começam com "- ")
+    const itemLines = body.map((l, k) => /^-(\s|$)/.test(l) ? start + k : -1).filter(k => k >= 0)
+    entries.forEach((item, k) => {
+      const line = Array.isArray(data) ? (itemLines[k] ?? start) : start
+      const id = `file:${path}:${index++}`
+      const fail = (message: string) => errors.push({ path, line, message })
+      if (!item || typeof item !== 'object') return fail("Regra deve ser um objeto com pattern e replacer.")
+      const e = item as Record<string, unknown>
+      if (typeof e.pattern !== 'string' || !e.pattern) return fail("Falta `pattern` (texto).")
+      if (typeof e.replacer !== 'string') return fail("Falta `replacer` (texto).")
+      const flags = e.flags == null ? undefined : `${e.flags}`
+      try { new RegExp(e.pattern, 'g' + normalizeFlags(flags)) }
+      catch (err) { return fail(`Regex: ${errorMessage(err)}`) }
+      if (e.type != null && !(`${e.type}` in REPLACER_TYPE_UI)) return fail(`Tipo inválido: "${e.type}" (use ${Object.keys(REPLACER_TYPE_UI).join(", ")})`)
+      if (e.flavor != null && !(`${e.flavor}` in FLAVOR_LABELS)) return fail(`Sabor inválido: "${e.flavor}" (use ${Object.keys(FLAVOR_LABELS).join(", ")})`)
+      rules.push({
+        pattern: { id: `${id}:p`, text: e.pattern, flags },
+        replacer: { id: `${id}:r`, text: e.replacer, type: e.type as ReplacerType | undefined },
+        link: {
+          id,
+          patternId: `${id}:p`,
+          replacerId: `${id}:r`,
+          enabled: e.enabled !== false,
+          comment: typeof e.comment === 'string' ? e.comment : "",
+          continue: !!e.continue,
+          flavor: e.flavor as ClipboardFlavor | undefined,
+        },
+        path,
+        line,
+      })
+    })
+  }
+  return { rules, errors }
+}
+
+const LINT_LABELS: Record<LintKind, string> = {
+  regex: "Regex inválida",
+  'group-ref': "Grupo inexistente",
+  orphan: "Sem ligação",
+  dangling: "Ligação quebrada",
+  shadowed: "Encoberta",
+  duplicate: "Ligação duplicada",
+}
+
+/** Referências a grupos no replacer (`$3`, `$<nome>`, `{{3}}`) que o padrão não tem */
+function missingGroupRefs(template: string, re: RegExp): string[] {
+  const probe = new RegExp(`${re.source}|`, re.flags.replace("g", "")).exec("")
+  const count = probe ? probe.length - 1 : 0
+  const named = Object.keys(probe?.groups ?? {})
+  const out = new Set<string>()
+  template.replace(/\$(\$|&|`|'|text|\d{1,2}|<[^>]*>)|\{\{\s*(\d+)\s*(?:\|[^{}]*)?\}\}/g, (tok: string, ref?: string, num?: string) => {
+    if (num !== undefined) {
+      if (Number(num) > count) out.add(`{{${num}}}`)
+    } else if (ref?.startsWith("<")) {
+      if (!named.includes(ref.slice(1, -1))) out.add(tok)
+    } else if (ref && /^\d/.test(ref)) {
+      // Mesma leitura de expandReplacement: $nn, senão $n seguido de um dígito
+      const one = Number(ref[0])
+      if (Number(ref) > count && (ref.length === 1 || one > count) && one >= 1) out.add(`$${ref[0]}`)
+    }
+    return tok
+  })
+  return [...out]
+}
+
+/** Código do worker: roda cada regex (varredura completa, como no replace) e avisa antes de cada uma */
+const REGEX_WORKER_SRC = `
+self.onmessage = (e) => {
+  if (e.data.match) {
+    // Ocorrências como String.replace as vê: a substituição é montada na janela principal
+    const { id, source, flags, texts } = e.data.match
+    const re = new RegExp(source, flags)
+    const found = texts.map(t => {
+      const out = []
+      t.replace(re, (...args) => {
+        const named = typeof args[args.length - 1] === "object" ? args.pop() : undefined
+        args.pop()
+        const offset = args.pop()
+        const [match, ...groups] = args
+        out.push({ match, groups, named, offset })
+        return ""
+      })
+      return out
+    })
+    self.postMessage({ id, found })
+    return
+  }
+  const { rules, texts } = e.data
+  for (let i = 0; i < rules.length; i++) {
+    self.postMessage({ at: i })
+    const re = new RegExp(rules[i].source, rules[i].flags)
+    for (const t of texts) t.replace(re, "")
+  }
+  self.postMessage({ done: true })
+}
+`
+
+/** Executa regexes num Worker com orçamento de tempo por regra, para um padrão com backtracking
+ *  catastrófico não travar a janela. Cada verificação usa um worker próprio, encerrado ao final. */
+class RegexGuard {
+  private url: string | null = null
+
+  static available(): boolean {
+    return typeof Worker !== 'undefined' && typeof Blob !== 'undefined'
+  }
+
+  /** Resolve com o índice da primeira regex que estourou `budgetMs`, ou null se todas terminaram */
+  check(patterns: RegExp[], texts: string[], budgetMs: number): Promise<number | null> {
+    if (!patterns.length || !RegexGuard.available()) return Promise.resolve(null)
+    if (!this.url) this.url = URL.createObjectURL(new Blob([REGEX_WORKER_SRC], { type: "text/javascript" }))
+    let worker: Worker
+    try { worker = new Worker(this.url) }
+    catch { return Promise.resolve(null) } // sem Worker neste ambiente: sem proteção
+    return new Promise(resolve => {
+      let current = 0
+      let timer = 0
+      const finish = (slow: number | null) => {
+        window.clearTimeout(timer)
+        worker.terminate()
+        resolve(slow)
+      }
+      const arm = () => {
+        window.clearTimeout(timer)
+        timer = window.setTimeout(() => finish(current), budgetMs)
+      }
+      worker.onmessage = (e: MessageEvent) => {
+        if (e.data?.done) finish(null)
+        else { current = e.data.at; arm() }
+      }
+      worker.onerror = () => finish(null)
+      arm()
+      worker.postMessage({ rules: patterns.map(r => ({ source: r.source, flags: r.flags })), texts })
+    })
+  }
+
+  /** Worker mantido entre várias buscas (uma por regra do pipeline), com o mesmo orçamento por busca */
+  session(budgetMs: number): RegexSession {
+    if (!this.url && RegexGuard.available()) this.url = URL.createObjectURL(new Blob([REGEX_WORKER_SRC], { type: "text/javascript" }))
+    return new RegexSession(this.url, budgetMs)
+  }
+
+  dispose() {
+    if (this.url) URL.revokeObjectURL(this.url)
+    this.url = null
+  }
+}
+
+/** Ocorrências de `re` (com `g`) em `text`, na ordem e com os argumentos que String.replace passaria */
+function collectMatches(re: RegExp, text: string): MatchInfo[] {
+  const out: MatchInfo[] = []
+  text.replace(re, (...args: unknown[]) => { out.push(matchInfoFromArgs(args)); return "" })
+  return out
+}
+
+/** Sessão do RegexGuard: cada busca roda no worker; se uma estoura o orçamento o worker é encerrado
+ *  e a busca resolve com null. Sem Worker, busca direto na janela (sem proteção). */
+class RegexSession {
+  private worker: Worker | null = null
+  private expired = false
+  private seq = 0
+
+  constructor(url: string | null, private budgetMs: number) {
+    try { if (url) this.worker = new Worker(url) }
+    catch { this.worker = null }
+  }
+
+  matchAll(pattern: RegExp, texts: string[]): Promise<MatchInfo[][] | null> {
+    const worker = this.worker
+    const direct = () => texts.map(t => collectMatches(pattern, t))
+    if (this.expired) return Promise.resolve(null)
+    if (!worker) return Promise.resolve(direct())
+    const id = ++this.seq
+    return new Promise(resolve => {
+      const timer = window.setTimeout(() => {
+        this.expired = true
+        this.close()
+        resolve(null)
+      }, this.budgetMs)
+      worker.onmessage = (e: MessageEvent) => {
+        if (e.data?.id !== id) return
+        window.clearTimeout(timer)
+        resolve((e.data.found as Omit<MatchInfo, 'input'>[][]).map((ms, i) => ms.map(m => ({ ...m, input: texts[i] }))))
+      }
+      worker.onerror = () => {
+        window.clearTimeout(timer)
+        this.close()
+        resolve(direct())
+      }
+      worker.postMessage({ match: { id, source: pattern.source, flags: pattern.flags, texts } })
+    })
+  }
+
+  close() {
+    this.worker?.terminate()
+    this.worker = null
+  }
+}
+
+/** Junta os resultados do modo por linha num só */
+function joinLineResults(lines: TransformResult[]): TransformResult {
+  return {
+    output: lines.map(l => l.output).join("\n"),
+    steps: ([] as TransformStep[]).concat(...lines.map(l => l.steps)),
+    errors: ([] as RuleError[]).concat(...lines.map(l => l.errors)),
+    jobs: ([] as FetchJob[]).concat(...lines.map(l => l.jobs)),
+  }
+}
+
+/** Construções conhecidas por backtracking catastrófico (heurística, pode ter falsos positivos) */
+function regexRiskWarnings(src: string): string[] {
+  const out: string[] = []
+  if (/\((?:[^()\\]|\\.)*[+*}](?:[^()\\]|\\.)*\)(?:[+*]|\{\d+,\d*\})/.test(src)) {
+    out.push("Quantificador aninhado, como (a+)+ ou (\\w+\\s?)*")
+  }
+  if (/\((?:[^()\\]|\\.)*\|(?:[^()\\]|\\.)*\)(?:[+*]|\{\d+,\d*\})/.test(src)) {
+    out.push("Alternância repetida, como (a|ab)*: perigosa se as alternativas se sobrepõem")
+  }
+  if (/\.[*+]\??\.[*+]/.test(src)) out.push("Curingas ilimitados seguidos, como .*.*")
+  return out
+}
+
+/** Regra de saída compilada */
+class OutboundCompiled {
+  pattern: RegExp
+  constructor(public rule: OutboundRule) {
+    this.pattern = new RegExp(rule.pattern, 'g' + normalizeFlags(rule.flags))
+  }
+
+  apply(text: string, ctx: PasteContext): string {
+    return text.replace(this.pattern, (...args: unknown[]) => expandReplacement(this.rule.replacer, matchInfoFromArgs(args), ctx))
   }
 }
 
 export default class PasteTransform extends Plugin {
   settings: PasteTransformSettings
   rules: ReplaceRule[] = []
-  private patternMap = new Map<Id, string>()
-  private replacerMap = new Map<Id, string>()
+  outboundRules: OutboundCompiled[] = []
+  /** Problemas encontrados no último compileRules (exibidos nas configurações) */
+  compileErrors: CompileError[] = []
+  private patternMap = new Map<Id, PatternItem>()
+  private replacerMap = new Map<Id, ReplacerItem>()
   private statusEl?: HTMLElement
+  /** "Paste raw once": o próximo paste passa sem transformação */
+  private skipNextPaste = false
+  private regexGuard = new RegexGuard()
+  /** Perfil escolhido pela pasta da nota ativa; vale sobre `activeProfileId` até a próxima troca manual */
+  private autoProfileId: Id | null = null
+  /** Comando "Use profile: …" de cada perfil já registrado nesta sessão */
+  private profileCommands = new Map<Id, Command>()
+  /** Regras das notas em `settings.ruleNotes` e os erros da última leitura */
+  noteRules: NoteRule[] = []
+  noteRuleErrors: NoteRuleError[] = []
+  private ruleNotesTimer = 0
+  private saveTimer = 0
+  /** Ligação a destacar na próxima abertura das configurações */
+  focusLinkId: Id | null = null
+  /** data.json recusado no carregamento (versão mais nova ou inválido): salvamentos ficam bloqueados */
+  settingsProblem: string | null = null
 
   async onload() {
     await this.loadSettings()
+    ensureStyles()
     this.addSettingTab(new PasteTransformSettingsTab(this.app, this))
 
     // Evento de paste
     this.registerEvent(this.app.workspace.on("editor-paste", (event) => this.onPaste(event)))
+    // Copiar/recortar de uma nota: regras de saída
+    this.registerDomEvent(document, "copy", (event) => this.onCopy(event, false))
+    this.registerDomEvent(document, "cut", (event) => this.onCopy(event, true))
 
     // Comando para Hotkeys
     this.addCommand({
@@ -94,136 +1299,1291 @@ export default class PasteTransform extends Plugin {
       hotkeys: [{ modifiers: ['Mod', 'Shift'], key: 'P' }],
     })
 
-    // Status bar clicável
-    this.statusEl = this.addStatusBarItem()
-    this.statusEl.addClass('mod-clickable')
-    this.statusEl.addEventListener('click', () => this.toggleActive())
-    this.updateStatusEl()
+    // Escolher o resultado / colar sem transformar
+    this.addCommand({
+      id: 'paste-transform-paste-as',
+      name: 'Paste as…',
+      editorCallback: (editor, view) => this.pasteAs(editor, view.file),
+    })
+    this.addCommand({
+      id: 'paste-transform-paste-raw-once',
+      name: 'Paste raw once (skip the next transform)',
+      callback: () => {
+        this.skipNextPaste = true
+        new Notice("Paste Transform: o próximo paste não será transformado.")
+      },
+    })
+
+    // Transformar texto já existente na nota
+    this.addCommand({
+      id: 'paste-transform-transform-selection',
+      name: 'Transform selection',
+      editorCallback: (editor, view) => this.transformSelection(editor, view.file),
+    })
+    this.addCommand({
+      id: 'paste-transform-transform-line',
+      name: 'Transform current line',
+      editorCallback: (editor, view) => this.transformLine(editor, view.file),
+    })
+    this.addCommand({
+      id: 'paste-transform-transform-note',
+      name: 'Transform all matches in note',
+      editorCallback: (editor, view) => this.transformNote(editor, view.file),
+    })
+
+    this.addCommand({
+      id: 'paste-transform-bulk-transform',
+      name: 'Bulk transform folder or vault…',
+      callback: () => new BulkTransformModal(this.app, this).open(),
+    })
+    this.addCommand({
+      id: 'paste-transform-restore-snapshot',
+      name: 'Restore notes from bulk transform report',
+      checkCallback: (checking) => {
+        const file = this.app.workspace.getActiveFile()
+        const ok = !!file && file.path.startsWith(`${REPORT_FOLDER}/`)
+        if (ok && !checking) void this.restoreSnapshot(file as TFile)
+        return ok
+      },
+    })
+
+    // Histórico de pastes (painel lateral)
+    this.registerView(HISTORY_VIEW, (leaf) => new PasteHistoryView(leaf, this))
+    this.addCommand({
+      id: 'paste-transform-open-history',
+      name: 'Open paste history',
+      callback: () => this.openHistory(),
+    })
+
+    // Perfis: um comando por perfil, troca por lista e escolha automática pela pasta
+    this.addCommand({
+      id: 'paste-transform-switch-profile',
+      name: 'Switch profile…',
+      callback: () => new ProfileSuggestModal(this.app, this).open(),
+    })
+    this.syncProfileCommands()
+    this.registerEvent(this.app.workspace.on("file-open", (file) => this.syncAutoProfile(file)))
+
+    // Regras em notas: relê quando uma delas muda, é renomeada ou removida
+    this.app.workspace.onLayoutReady(() => void this.loadRuleNotes())
+
+    // Backup diário opcional: ao abrir e a cada hora (Obsidian aberto de um dia para o outro)
+    this.app.workspace.onLayoutReady(() => void this.dailyBackupIfDue())
+    this.registerInterval(window.setInterval(() => void this.dailyBackupIfDue(), 60 * 60 * 1000))
+    this.registerEvent(this.app.vault.on("modify", (file) => { if (this.isRuleNote(file.path)) this.scheduleRuleNotes() }))
+    this.registerEvent(this.app.vault.on("delete", (file) => { if (this.isRuleNote(file.path)) this.scheduleRuleNotes() }))
+    this.registerEvent(this.app.vault.on("rename", (file, oldPath) => {
+      if (this.isRuleNote(oldPath) || this.isRuleNote(file.path)) this.scheduleRuleNotes()
+    }))
+
+    // Status bar clicável
+    this.statusEl = this.addStatusBarItem()
+    this.statusEl.addClass('mod-clickable')
+    this.statusEl.addEventListener('click', (evt) => this.openStatusMenu(evt))
+    this.updateStatusEl()
+  }
+
+  onunload() {
+    window.clearTimeout(this.ruleNotesTimer)
+    // Uso/histórico registrado ainda não salvo
+    if (this.saveTimer) {
+      window.clearTimeout(this.saveTimer)
+      void this.saveSettings()
+    }
+    this.regexGuard.dispose()
+    document.getElementById(STYLE_ID)?.remove()
+  }
+
+  onPaste(event: ClipboardEvent) {
+    if (this.skipNextPaste) {
+      this.skipNextPaste = false
+      return
+    }
+    if (!this.settings.active) return
+
+    if (event.defaultPrevented) {
+      if (this.settings.debugMode) console.log("Event already prevented.")
+      return
+    }
+    const data = event.clipboardData
+    const types = data?.types
+    if (!data || !types || types.includes("Files")) return
+
+    const plainText = data.getData("text/plain")
+    const html = types.includes("text/html") ? data.getData("text/html") : ""
+    if (!plainText && !html) return
+
+    const ed = this.getActiveEditor()
+    if (!ed?.replaceSelection) return
+
+    const ctx = this.buildContext(this.getActiveFile())
+    ctx.md = detectMarkdownContext(ed.getValue(), ed.posToOffset(ed.getCursor("from")))
+    ctx.selection = ed.getSelection()
+    const input = readPasteInput(plainText, html)
+    if (this.needsGuard(input)) {
+      // A verificação é assíncrona: o paste padrão é cancelado e refeito por pasteInto
+      event.preventDefault()
+      void this.guardedPaste(ed, input, ctx)
+      return
+    }
+    this.pasteInto(ed, input, ctx, event)
+  }
+
+  private pasteInto(ed: Editor, input: PasteInput, ctx: PasteContext, event?: ClipboardEvent) {
+    if (this.settings.pickerOnMultipleMatches && this.openPicker(ed, input, ctx, this.pasteCandidates(input, ctx), event)) return
+    this.insertResult(ed, input, ctx, this.transform(input, ctx), event)
+  }
+
+  /** Mais de uma regra casa: abre o "Paste as…" em vez de colar */
+  private openPicker(ed: Editor, input: PasteInput, ctx: PasteContext, candidates: PasteCandidate[], event?: ClipboardEvent): boolean {
+    if (candidates.filter(c => c.linkId).length <= 1) return false
+    event?.preventDefault()
+    new PasteAsModal(this.app, this, ed, candidates, input.text, ctx.file?.path ?? "").open()
+    return true
+  }
+
+  /** Insere o resultado das regras. Sem `event` (paste padrão já cancelado), quando nada
+   *  casa insere o texto original, ou o HTML convertido como o Obsidian faria. */
+  private insertResult(ed: Editor, input: PasteInput, ctx: PasteContext, result: TransformResult, event?: ClipboardEvent) {
+    const { output, steps, errors, jobs } = result
+    if (errors.length && this.settings.debugMode) console.log("Paste Transform: regras com erro", errors)
+    // Nenhuma regra disparou: segue o paste padrão do Obsidian (inclusive HTML → Markdown)
+    if (steps.length === 0 || (!input.html && output === input.text)) {
+      if (!event) ed.replaceSelection(input.html ? htmlToMarkdown(input.html) : input.text)
+      return
+    }
+
+    ed.replaceSelection(output)
+    event?.preventDefault()
+    if (this.settings.debugMode) console.log("Paste Transform: regras aplicadas", steps.map(st => this.describeRule(st.linkId)))
+    this.recordUsage(steps)
+    this.recordHistory(input.text, output, steps, ctx.file?.path ?? "")
+    for (const job of jobs) void this.completeJob(ed, job)
+  }
+
+  /** Clipboards grandes passam pelo RegexGuard antes das regras */
+  needsGuard(input: PasteInput): boolean {
+    const size = input.text.length + (input.html?.length ?? 0)
+    return this.settings.regexBudgetMs > 0 && size >= this.settings.regexGuardMinLength && RegexGuard.available()
+  }
+
+  /** Regra (dentre `rules`) cuja regex estoura o orçamento de tempo nos textos do paste, se houver */
+  async findSlowRule(input: PasteInput, rules: ReplaceRule[]): Promise<ReplaceRule | null> {
+    const texts = [input.text, input.html ?? "", input.anchor?.href ?? ""].filter(t => t)
+    if (this.settings.perLine) texts.push(...input.text.split(/\r?\n/))
+    const slow = await this.regexGuard.check(rules.map(r => r.pattern), texts, this.settings.regexBudgetMs)
+    return slow === null ? null : rules[slow]
+  }
+
+  /** Paste com as regexes no RegexGuard (pipeline e, com o seletor ligado, cada regra isolada).
+   *  Se uma regra estoura o orçamento, cola como o Obsidian colaria, sem transformar. */
+  private async guardedPaste(ed: Editor, input: PasteInput, ctx: PasteContext) {
+    const fallback = (slow: ReplaceRule) => {
+      new Notice(`Paste Transform: a regra ${this.describeRule(slow.linkId)} excedeu ${this.settings.regexBudgetMs} ms e foi ignorada. Colado sem transformar.`)
+      ed.replaceSelection(input.html ? htmlToMarkdown(input.html) : input.text)
+    }
+    const session = this.regexGuard.session(this.settings.regexBudgetMs)
+    try {
+      const full = await this.transformGuarded(input, ctx, this.rules, session)
+      if (full instanceof ReplaceRule) return fallback(full)
+      if (this.settings.pickerOnMultipleMatches) {
+        const isolated: [ReplaceRule, TransformResult][] = []
+        for (const rule of this.rules) {
+          const r = await this.transformGuarded(input, ctx, [rule], session)
+          if (r instanceof ReplaceRule) return fallback(r)
+          isolated.push([rule, r])
+        }
+        if (this.openPicker(ed, input, ctx, this.candidatesFrom(input, full, isolated))) return
+      }
+      this.insertResult(ed, input, ctx, full)
+    } finally {
+      session.close()
+    }
+  }
+
+  /** Opções do "Paste as…": original, HTML → Markdown, pipeline completo e cada regra que casa, isolada */
+  pasteCandidates(input: PasteInput, ctx: PasteContext): PasteCandidate[] {
+    return this.candidatesFrom(input, this.transform(input, ctx), this.rules.map(rule => [rule, this.transform(input, ctx, [rule])]))
+  }
+
+  private candidatesFrom(input: PasteInput, full: TransformResult, isolated: [ReplaceRule, TransformResult][]): PasteCandidate[] {
+    const out: PasteCandidate[] = [{ label: "Texto original", output: input.text, jobs: [] }]
+    if (input.html) out.push({ label: "HTML → Markdown (paste padrão do Obsidian)", output: htmlToMarkdown(input.html), jobs: [] })
+    if (full.steps.length > 1) out.push({ label: "Pipeline completo", output: full.output, jobs: full.jobs, steps: full.steps })
+    for (const [rule, r] of isolated) {
+      if (r.steps.length) out.push({ label: this.describeRule(rule.linkId), output: r.output, linkId: rule.linkId, jobs: r.jobs, steps: r.steps })
+    }
+    return out
+  }
+
+  /** "Paste as…" pelo comando: lê o clipboard e abre o seletor */
+  private async pasteAs(ed: Editor, file: TFile | null) {
+    let text = ""
+    let html = ""
+    try {
+      for (const item of await navigator.clipboard.read()) {
+        if (item.types.includes("text/plain")) text = await (await item.getType("text/plain")).text()
+        if (item.types.includes("text/html")) html = await (await item.getType("text/html")).text()
+      }
+    } catch (_) {
+      text = await navigator.clipboard.readText().catch(() => "")
+    }
+    if (!text && !html) { new Notice("O clipboard não tem texto."); return }
+    const ctx = this.buildContext(file)
+    ctx.md = detectMarkdownContext(ed.getValue(), ed.posToOffset(ed.getCursor("from")))
+    ctx.selection = ed.getSelection()
+    const input = readPasteInput(text, html)
+    new PasteAsModal(this.app, this, ed, this.pasteCandidates(input, ctx), input.text, ctx.file?.path ?? "").open()
+  }
+
+  onCopy(event: ClipboardEvent, cut: boolean) {
+    if (!this.settings.active || event.defaultPrevented || !event.clipboardData) return
+    if (!this.outboundRules.some(r => r.rule.enabled)) return
+    const ed = this.getActiveEditor()
+    if (!ed?.hasFocus()) return
+    const sel = ed.getSelection()
+    if (!sel) return
+
+    const ctx = this.buildContext(this.getActiveFile())
+    const text = this.applyOutbound(sel, 'text', ctx)
+    const html = this.applyOutbound(sel, 'html', ctx)
+    if (!text.fired.length && !html.fired.length) return
+
+    event.clipboardData.setData("text/plain", text.output)
+    if (html.fired.length) event.clipboardData.setData("text/html", html.output)
+    event.preventDefault()
+    if (cut) ed.replaceSelection("")
+  }
+
+  /** Aplica, em ordem, as regras de saída habilitadas do sabor pedido (cada uma em todas as ocorrências) */
+  applyOutbound(text: string, flavor: OutboundRule['flavor'], ctx: PasteContext = {}): { output: string; fired: Id[]; errors: RuleError[] } {
+    let output = text
+    const fired: Id[] = []
+    const errors: RuleError[] = []
+    ctx = Object.assign({ clipboard: text }, ctx)
+    for (const r of this.outboundRules) {
+      if (!r.rule.enabled || !r.rule.pattern || r.rule.flavor !== flavor || output.search(r.pattern) === -1) continue
+      try { output = r.apply(output, ctx) }
+      catch (e) {
+        errors.push({ linkId: r.rule.id, message: errorMessage(e) })
+        continue
+      }
+      fired.push(r.rule.id)
+    }
+    return { output, fired, errors }
+  }
+
+  /** Troca o placeholder de um `fetch` pelo texto final (ou pelo fallback) quando a busca termina */
+  async completeJob(ed: Editor, job: FetchJob) {
+    const text = await this.resolveJob(job)
+    const at = ed.getValue().indexOf(job.placeholder)
+    if (at === -1) return // placeholder editado/removido pelo usuário
+    ed.replaceRange(text, ed.offsetToPos(at), ed.offsetToPos(at + job.placeholder.length))
+  }
+
+  /** Texto final de um `fetch`; nunca rejeita (falha/timeout → fallback) */
+  async resolveJob(job: FetchJob): Promise<string> {
+    try {
+      return job.render(await this.fetchPageField(job.url, job.field))
+    } catch (e) {
+      if (this.settings.debugMode) console.log(`Paste Transform: fetch falhou (${job.url})`, e)
+      return job.fallback
+    }
+  }
+
+  /** Busca `<title>` ou um campo OpenGraph da página, com cache por URL */
+  async fetchPageField(url: string, field: FetchField): Promise<string> {
+    const key = `${field}|${url}`
+    const cached = this.settings.fetchCache[key]
+    if (cached) return cached.value
+    if (!/^https?:\/\//i.test(url)) throw new Error(`Não é uma URL http(s): ${url}`)
+
+    let timer = 0
+    const timeout = new Promise<never>((_, reject) => {
+      timer = window.setTimeout(() => reject(new Error(`Tempo esgotado (${this.settings.fetchTimeoutMs} ms)`)), this.settings.fetchTimeoutMs)
+    })
+    let html: string
+    try { html = (await Promise.race([requestUrl({ url, method: "GET" }), timeout])).text }
+    finally { window.clearTimeout(timer) }
+
+    const doc = new DOMParser().parseFromString(html, "text/html")
+    const raw = field === 'title'
+      ? doc.querySelector("title")?.textContent
+      : doc.querySelector(`meta[property="${field}"], meta[name="${field}"]`)?.getAttribute("content")
+    const value = (raw ?? "").replace(/\s+/g, " ").trim()
+    if (!value) throw new Error(`Campo "${field}" não encontrado em ${url}`)
+
+    this.settings.fetchCache[key] = { value, at: Date.now() }
+    const keys = Object.keys(this.settings.fetchCache)
+    if (keys.length > FETCH_CACHE_MAX) {
+      keys.sort((a, b) => this.settings.fetchCache[a].at - this.settings.fetchCache[b].at)
+      for (const k of keys.slice(0, keys.length - FETCH_CACHE_MAX)) delete this.settings.fetchCache[k]
+    }
+    await this.saveSettings()
+    return value
+  }
+
+  /** Editor ativo (API nova activeEditor → fallback MarkdownView) */
+  private getActiveEditor(app: App = this.app): Editor | undefined {
+    const ws = app.workspace as any
+    if ("activeEditor" in ws && ws.activeEditor?.editor) return ws.activeEditor.editor as Editor
+    return app.workspace.getActiveViewOfType(MarkdownView)?.editor
+  }
+
+  /** Todas as ocorrências das regras de texto em `text`, não só o texto inteiro. A busca é feita
+   *  linha a linha (padrões com ^…$ casam com linhas inteiras); ocorrências sobrepostas ficam com
+   *  a regra de maior prioridade. Com `doc`, o contexto Markdown é detectado em cada ocorrência
+   *  (`base` = posição de `text` dentro de `doc`). */
+  scanText(text: string, ctx: PasteContext = {}, doc?: { text: string; base: number }, rules = this.rules): ScanMatch[] {
+    const found: ScanMatch[] = []
+    const textRules = rules.filter(r => r.flavor === 'text' && matchesScope(r.scope, ctx))
+    const input: PasteInput = { text }
+    ctx = Object.assign({ clipboard: text }, ctx)
+    let lineStart = 0
+    text.split("\n").forEach((line, lineNo) => {
+      for (const rule of textRules) {
+        const re = new RegExp(rule.pattern.source, rule.pattern.flags)
+        let r: RegExpExecArray | null
+        while ((r = re.exec(line)) !== null) {
+          if (r[0] === "") { re.lastIndex++; continue }
+          const from = lineStart + r.index
+          const to = from + r[0].length
+          if (found.some(f => f.from < to && from < f.to)) continue
+          const md = doc ? detectMarkdownContext(doc.text, doc.base + from) : ctx.md ?? 'text'
+          if (rule.blockedContexts.includes(md)) continue
+          let after: string
+          try {
+            after = rule.render({ match: r[0], groups: r.slice(1), named: r.groups, offset: r.index, input: line }, input, Object.assign({}, ctx, { md }))
+          } catch (e) {
+            if (this.settings.debugMode) console.log("Paste Transform: erro ao transformar ocorrência", e)
+            continue
+          }
+          if (after !== r[0]) found.push({ from, to, before: r[0], after, linkId: rule.linkId, line: lineNo })
+        }
+      }
+      lineStart += line.length + 1
+    })
+    return found.sort((a, b) => a.from - b.from)
+  }
+
+  private transformSelection(ed: Editor, file: TFile | null) {
+    const sel = ed.getSelection()
+    if (!sel) { new Notice("Selecione um texto para transformar."); return }
+    const from = ed.posToOffset(ed.getCursor("from"))
+    const matches = this.scanText(sel, this.buildContext(file), { text: ed.getValue(), base: from })
+    if (!matches.length) { new Notice("Nenhuma regra casou com a seleção."); return }
+    ed.replaceSelection(applyMatches(sel, matches))
+    new Notice(`${matches.length} substituição(ões) aplicada(s).`)
+  }
+
+  private transformLine(ed: Editor, file: TFile | null) {
+    const line = ed.getCursor().line
+    const text = ed.getLine(line)
+    const base = ed.posToOffset({ line, ch: 0 })
+    const matches = this.scanText(text, this.buildContext(file), { text: ed.getValue(), base })
+    if (!matches.length) { new Notice("Nenhuma regra casou com a linha."); return }
+    ed.replaceRange(applyMatches(text, matches), { line, ch: 0 }, { line, ch: text.length })
+    new Notice(`${matches.length} substituição(ões) aplicada(s).`)
+  }
+
+  private transformNote(ed: Editor, file: TFile | null) {
+    const doc = ed.getValue()
+    const matches = this.scanText(doc, this.buildContext(file), { text: doc, base: 0 })
+    if (!matches.length) { new Notice("Nenhuma regra casou nesta nota."); return }
+    new ScanReviewModal(this.app, this, matches, accepted => {
+      // Confere se a nota não mudou enquanto o modal estava aberto
+      if (ed.getValue() !== doc) { new Notice("A nota mudou; rode o comando novamente."); return }
+      ed.transaction({
+        changes: accepted.map(m => ({ from: ed.offsetToPos(m.from), to: ed.offsetToPos(m.to), text: m.after })),
+      })
+      new Notice(`${accepted.length} substituição(ões) aplicada(s).`)
+    }).open()
+  }
+
+  /** Simulação em massa: procura ocorrências das regras escolhidas em todas as notas da pasta */
+  async bulkScan(folder: string, rules: ReplaceRule[]): Promise<BulkFileResult[]> {
+    const prefix = folder.trim().replace(/^\/+|\/+$/g, "")
+    const files = this.app.vault.getMarkdownFiles()
+      .filter(f => !prefix || f.path.startsWith(`${prefix}/`))
+      .filter(f => !f.path.startsWith(`${REPORT_FOLDER}/`))
+      .sort((a, b) => a.path.localeCompare(b.path))
+    const results: BulkFileResult[] = []
+    for (const file of files) {
+      const content = await this.app.vault.cachedRead(file)
+      if (this.needsGuard({ text: content })) {
+        const slow = await this.findSlowRule({ text: content }, rules)
+        if (slow) {
+          new Notice(`Paste Transform: a regra ${this.describeRule(slow.linkId)} excedeu ${this.settings.regexBudgetMs} ms em ${file.path}; nota ignorada.`)
+          continue
+        }
+      }
+      const matches = this.scanText(content, this.buildContext(file), { text: content, base: 0 }, rules)
+      if (matches.length) results.push({ file, content, matches })
+    }
+    return results
+  }
+
+  /** Grava a nota de relatório (arquivo, linha, antes e depois) com o snapshot das notas afetadas */
+  async writeBulkReport(folder: string, rules: ReplaceRule[], results: BulkFileResult[]): Promise<TFile> {
+    const code = (v: string) => {
+      const t = v.replace(/\r?\n/g, " ⏎ ").replace(/\|/g, "\\|")
+      return t.includes("`") ? `\`\` ${t} \`\`` : `\`${t}\``
+    }
+    const now = new Date()
+    const total = results.reduce((n, r) => n + r.matches.length, 0)
+    const lines = [
+      "# Paste Transform — transformação em massa",
+      "",
+      `- Data: ${now.toLocaleString()}`,
+      `- Pasta: ${folder.trim() ? code(folder.trim()) : "(cofre inteiro)"}`,
+      `- Regras: ${rules.map(r => code(this.describeRule(r.linkId))).join(", ")}`,
+      `- Notas afetadas: ${results.length} · Substituições: ${total}`,
+      `- Estado: simulação (dry run)`,
+      "",
+    ]
+    for (const r of results) {
+      lines.push(`## [[${r.file.path}]]`, "", "| Linha | Regra | Antes | Depois |", "|---|---|---|---|")
+      for (const m of r.matches) lines.push(`| ${m.line + 1} | ${code(this.describeRule(m.linkId))} | ${code(m.before)} | ${code(m.after)} |`)
+      lines.push("")
+    }
+
+    try { await this.app.vault.createFolder(REPORT_FOLDER) } catch (_) { /* já existe */ }
+    const stamp = now.toISOString().replace(/[:.]/g, "-")
+    return await this.app.vault.create(`${REPORT_FOLDER}/bulk-transform-${stamp}.md`, lines.join("\n"))
+  }
+
+  /** Aplica a simulação; notas que mudaram desde então são puladas. O snapshot gravado no relatório
+   *  guarda só as notas reescritas aqui. */
+  async applyBulk(report: TFile, results: BulkFileResult[]): Promise<{ applied: number; skipped: string[] }> {
+    const now = new Date()
+    const snapshot: BulkSnapshot = { createdAt: now.toISOString(), files: {} }
+    const skipped: string[] = []
+    for (const r of results) {
+      let written: string | null = null
+      await this.app.vault.process(r.file, data => {
+        if (data !== r.content) return data
+        written = applyMatches(data, r.matches)
+        return written
+      })
+      if (written === null) skipped.push(r.file.path)
+      else snapshot.files[r.file.path] = { content: r.content, hash: hashString(written) }
+    }
+    const applied = Object.keys(snapshot.files).length
+    await this.app.vault.process(report, data => [
+      data.replace(
+        "- Estado: simulação (dry run)",
+        `- Estado: aplicado em ${now.toLocaleString()} (${applied} nota(s)${skipped.length ? `; puladas por terem mudado: ${skipped.join(", ")}` : ""})`,
+      ).trimEnd(),
+      "",
+      "## Snapshot",
+      "",
+      "Conteúdo original das notas alteradas. Com esta nota aberta, rode o comando “Restore notes from bulk transform report” para desfazer; notas editadas depois de aplicar não são restauradas.",
+      "",
+      "```" + SNAPSHOT_BLOCK,
+      JSON.stringify(snapshot),
+      "```",
+      "",
+    ].join("\n"))
+    return { applied, skipped }
+  }
+
+  /** Restaura as notas a partir do snapshot gravado em um relatório. Notas que mudaram depois de
+   *  aplicar (hash diferente) ou que não existem mais são listadas e ficam como estão. */
+  async restoreSnapshot(report: TFile) {
+    try {
+      const text = await this.app.vault.read(report)
+      const m = text.match(new RegExp("```" + SNAPSHOT_BLOCK + "\\n(.*)\\n```"))
+      if (!m) throw new Error("Esta nota não contém um snapshot (a simulação não foi aplicada?).")
+      const snapshot = JSON.parse(m[1]) as BulkSnapshot
+      const restorable: TFile[] = []
+      const skipped: string[] = []
+      for (const [path, entry] of Object.entries(snapshot.files || {})) {
+        const file = this.app.vault.getAbstractFileByPath(path)
+        if (typeof entry?.hash !== 'string') skipped.push(`${path} (snapshot antigo, sem hash)`)
+        else if (!(file instanceof TFile)) skipped.push(`${path} (não existe mais)`)
+        else if (hashString(await this.app.vault.read(file)) !== entry.hash) skipped.push(`${path} (editada depois de aplicar)`)
+        else restorable.push(file)
+      }
+      new RestoreSnapshotModal(this.app, snapshot, restorable, skipped, async () => {
+        let restored = 0
+        for (const file of restorable) {
+          const entry = snapshot.files[file.path]
+          // Confere de novo: a nota pode ter mudado com o modal aberto
+          await this.app.vault.process(file, data => {
+            if (hashString(data) !== entry.hash) return data
+            restored++
+            return entry.content
+          })
+        }
+        const missed = restorable.length - restored
+        new Notice(`${restored} nota(s) restaurada(s)${skipped.length + missed ? `, ${skipped.length + missed} pulada(s) por terem mudado` : ""}.`)
+      }).open()
+    } catch (e) {
+      console.error(e)
+      new Notice(`Falha ao restaurar: ${errorMessage(e)}`)
+    }
+  }
+
+  /** Roda os exemplos e amostras negativas de todas as ligações pelo pipeline completo (applyRules),
+   *  ignorando escopos e contextos. Exemplos de regras desabilitadas são marcados como pulados. */
+  runTests(): TestOutcome[] {
+    const out: TestOutcome[] = []
+    const ctx: PasteContext = { ignoreScope: true }
+    for (const L of this.settings.links || []) {
+      const skipped = !this.rules.some(r => r.linkId === L.id)
+      for (const t of L.tests || []) {
+        const r = this.transform(t.input, ctx)
+        out.push({
+          linkId: L.id, kind: 'example', input: t.input, expected: t.expected, actual: r.output,
+          pass: !skipped && r.output === t.expected, skipped, errors: r.errors.map(e => e.message),
+        })
+      }
+      for (const sample of L.mustNotMatch || []) {
+        const r = this.transform(sample, ctx)
+        out.push({
+          linkId: L.id, kind: 'negative', input: sample, actual: r.output,
+          pass: !skipped && !r.steps.some(st => st.linkId === L.id), skipped, errors: r.errors.map(e => e.message),
+        })
+      }
+    }
+    return out
+  }
+
+  /** Procura regras que nunca disparam ou não fazem o esperado: regex inválida, grupos inexistentes
+   *  no replacer, itens sem ligação, ligações quebradas ou duplicadas e regras encobertas por uma
+   *  regra anterior (mesmo padrão, ou casa todos os exemplos dos testes da regra). */
+  lintRules(): LintIssue[] {
+    const issues: LintIssue[] = []
+    const patterns = this.settings.patterns as PatternItem[]
+    const replacers = this.settings.replacers as ReplacerItem[]
+    const links = this.settings.links || []
+
+    const compiled = new Map<Id, RegExp>()
+    for (const p of patterns) {
+      try { compiled.set(p.id, new RegExp(p.text, 'g' + normalizeFlags(p.flags))) }
+      catch (e) { issues.push({ kind: 'regex', patternId: p.id, message: errorMessage(e) }) }
+      if (!links.some(L => L.patternId === p.id)) {
+        issues.push({ kind: 'orphan', patternId: p.id, message: "Padrão sem nenhuma ligação." })
+      }
+    }
+    for (const r of replacers) {
+      if (!links.some(L => L.replacerId === r.id)) {
+        issues.push({ kind: 'orphan', replacerId: r.id, message: "Replacer sem nenhuma ligação." })
+      }
+    }
+
+    const seen = new Map<string, number>()
+    links.forEach((L, idx) => {
+      const p = this.patternMap.get(L.patternId)
+      const r = this.replacerMap.get(L.replacerId)
+      if (!p || !r) {
+        issues.push({ kind: 'dangling', linkId: L.id, message: `Aponta para ${!p ? "um padrão" : "um replacer"} que não existe mais.` })
+        return
+      }
+      const key = `${L.patternId}→${L.replacerId}`
+      const first = seen.get(key)
+      if (first !== undefined) issues.push({ kind: 'duplicate', linkId: L.id, message: `Mesmo par padrão → replacer da regra #${first + 1}.` })
+      else seen.set(key, idx)
+
+      const re = compiled.get(p.id)
+      if (re && r.type !== 'script') {
+        const missing = missingGroupRefs(r.type === 'fetch' ? `${r.text} ${r.fallback ?? ""}` : r.text, re)
+        if (missing.length) {
+          issues.push({ kind: 'group-ref', linkId: L.id, replacerId: r.id, message: `${missing.join(", ")}: o padrão /${p.text}/ não tem esse grupo.` })
+        }
+      }
+    })
+
+    // Encobertas: uma regra anterior que não continua, vale onde esta vale e casa antes
+    const covers = (a: ReplaceRule, b: ReplaceRule) =>
+      a.flavor === b.flavor &&
+      (isEmptyScope(a.scope) || JSON.stringify(a.scope) === JSON.stringify(b.scope)) &&
+      a.blockedContexts.every(c => b.blockedContexts.includes(c))
+    this.rules.forEach((rule, i) => {
+      const L = links.find(x => x.id === rule.linkId)
+      const samples = (L?.tests || []).map(t => t.input).filter(t => t)
+      for (const prev of this.rules.slice(0, i)) {
+        if (prev.continue || !covers(prev, rule)) continue
+        const samePattern = prev.pattern.source === rule.pattern.source && prev.pattern.flags === rule.pattern.flags
+        const eatsSamples = rule.flavor === 'text' && samples.length > 0 && samples.every(t => t.search(prev.pattern) !== -1)
+        if (!samePattern && !eatsSamples) continue
+        issues.push({
+          kind: 'shadowed',
+          linkId: rule.linkId,
+          message: `${this.describeRule(prev.linkId)} vence antes: ${samePattern ? "mesmo padrão" : "casa todos os exemplos dos testes"}.`,
+        })
+        break
+      }
+    })
+    return issues
+  }
+
+  /** Rótulo curto de uma regra (prioridade + padrão), para modais e avisos */
+  describeRule(linkId: Id): string {
+    const note = this.noteRules.find(n => n.link.id === linkId)
+    if (note) return `📄 ${note.path}:${note.line} /${note.pattern.text}/${note.pattern.flags ?? ""}`
+    const links = this.settings.links || []
+    const idx = links.findIndex(L => L.id === linkId)
+    const L = links[idx]
+    const p = L && this.patternMap.get(L.patternId)
+    return p ? `#${idx + 1} /${p.text}/${p.flags ?? ""}` : "Regra ?"
+  }
+
+  /** Nota do editor ativo (mesma origem de getActiveEditor) */
+  private getActiveFile(app: App = this.app): TFile | null {
+    // `activeEditor` é undefined em versões antigas do Obsidian
+    const file = app.workspace.activeEditor?.file
+    if (file) return file
+    return app.workspace.getActiveViewOfType(MarkdownView)?.file ?? null
+  }
+
+  /** Contexto de escopo de uma nota: caminho, tags e frontmatter do metadataCache */
+  buildContext(file: TFile | string | null): PasteContext {
+    if (!file) return {}
+    const tf = typeof file === 'string' ? this.app.vault.getAbstractFileByPath(file) : file
+    if (!(tf instanceof TFile)) return { file: { path: `${file}`, tags: [], frontmatter: {} } }
+    const cache = this.app.metadataCache.getFileCache(tf)
+    return {
+      file: {
+        path: tf.path,
+        tags: cache ? getAllTags(cache) ?? [] : [],
+        frontmatter: cache?.frontmatter ?? {},
+      },
+    }
+  }
+
+  /** Aplica, em ordem, as migrações entre a versão dos dados e SETTINGS_FORMAT_VERSION */
+  private migrateIfNeeded(s: PasteTransformSettings) {
+    for (const m of SETTINGS_MIGRATIONS) {
+      if (s.settingsFormatVersion >= m.to) continue
+      m.run(s)
+      s.settingsFormatVersion = m.to
+    }
+  }
+
+  private normalizeDefaultsIfEmpty(s: PasteTransformSettings) {
+    if (!Array.isArray(s.links) || s.links.length === 0) {
+      const ps = s.patterns as PatternItem[]
+      const rs = s.replacers as ReplacerItem[]
+      const n = Math.min(ps.length, rs.length)
+      s.links = []
+      for (let i = 0; i < n; i++) {
+        s.links.push({ id: uid('link'), patternId: ps[i].id, replacerId: rs[i].id, enabled: true, comment: "" })
+      }
+    }
+  }
+
+  /** Lê settings gravados (data.json, import ou backup): recusa versão mais nova, migra e valida.
+   *  Lança erro listando os campos inválidos. */
+  private parseSettings(raw: unknown, base: Partial<PasteTransformSettings>): PasteTransformSettings {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error("Esperado um objeto JSON de configurações.")
+    const version = settingsVersion(raw as Record<string, unknown>)
+    if (version > SETTINGS_FORMAT_VERSION) {
+      throw new Error(`Gravado por uma versão mais nova do plugin (formato ${version}; esta versão lê até ${SETTINGS_FORMAT_VERSION}).`)
+    }
+    const s = Object.assign(defaultSettings(), base, raw, { settingsFormatVersion: version }) as PasteTransformSettings
+    this.migrateIfNeeded(s)
+    this.normalizeDefaultsIfEmpty(s)
+    const problems = validateSettings(s)
+    if (problems.length) {
+      const shown = problems.slice(0, 10).map(x => `- ${x}`)
+      if (problems.length > 10) shown.push(`- … e mais ${problems.length - 10}`)
+      throw new Error(`Campos inválidos:\n${shown.join("\n")}`)
+    }
+    return s
+  }
+
+  /** Settings recebidos (import ou backup) no formato atual, sem misturar com os atuais. Campos
+   *  ausentes no arquivo vêm dos padrões só para validar: a mesclagem aplica apenas os presentes. */
+  prepareIncoming(raw: unknown): PasteTransformSettings {
+    return this.parseSettings(raw, { patterns: [], replacers: [], links: [] })
+  }
+
+  async loadSettings() {
+    const raw = await this.loadData()
+    this.settingsProblem = null
+    try {
+      if (raw) this.settings = this.parseSettings(raw, {})
+      else {
+        // Instalação nova: liga os pares de exemplo, como parseSettings faz
+        this.settings = defaultSettings()
+        this.normalizeDefaultsIfEmpty(this.settings)
+      }
+    } catch (e) {
+      // Não mexe no data.json: roda com os padrões e bloqueia os salvamentos
+      this.settingsProblem = `${errorMessage(e)}`
+      this.settings = defaultSettings()
+      this.normalizeDefaultsIfEmpty(this.settings)
+      console.error("Paste Transform: data.json recusado", e)
+      new Notice(`Paste Transform: configurações não carregadas. ${this.settingsProblem}`, 0)
+    }
+    this.compileRules()
+  }
+
+  async saveSettings() {
+    if (this.settingsProblem) {
+      if (this.settings.debugMode) console.log("Paste Transform: salvamento bloqueado", this.settingsProblem)
+      return
+    }
+    await this.saveData(this.settings)
+  }
+
+  /** Ligações novas (criadas ou importadas) contam como usadas agora: só ficam "paradas" N dias depois.
+   *  Com o registro desligado nada é gravado, como em recordUsage. */
+  seedUsage(ids: Id[]) {
+    if (!this.settings.trackUsage) return
+    const now = Date.now()
+    for (const id of ids) this.settings.usage[id] ??= { count: 0, lastUsed: now, samples: [] }
+  }
+
+  /** Conta um uso de cada regra que disparou, se o registro estiver ligado. Salva com atraso
+   *  para não gravar o data.json a cada paste. */
+  recordUsage(steps: { linkId: Id; input: string }[]) {
+    if (!this.settings.trackUsage || !steps.length) return
+    const now = Date.now()
+    for (const st of steps) {
+      const u = this.settings.usage[st.linkId] ??= { count: 0, lastUsed: 0, samples: [] }
+      u.count++
+      u.lastUsed = now
+      const sample = st.input.slice(0, 200)
+      u.samples = [sample, ...u.samples.filter(x => x !== sample)].slice(0, this.settings.usageSamples)
+    }
+    this.saveSoon()
+  }
+
+  /** Guarda um paste transformado no histórico (limitado a historySize) */
+  recordHistory(input: string, output: string, steps: TransformStep[], path: string) {
+    if (this.settings.historySize <= 0 || !steps.length) return
+    const linkIds = [...new Set(steps.map(st => st.linkId))]
+    const truncated = input.length > HISTORY_TEXT_MAX || output.length > HISTORY_TEXT_MAX
+    const entry: HistoryEntry = {
+      at: Date.now(), path,
+      input: input.slice(0, HISTORY_TEXT_MAX), output: output.slice(0, HISTORY_TEXT_MAX),
+      linkIds, rules: linkIds.map(id => this.describeRule(id)),
+    }
+    if (truncated) entry.truncated = true
+    this.settings.history = [
+      entry,
+      ...this.settings.history,
+    ].slice(0, this.settings.historySize)
+    this.saveSoon()
+    this.refreshHistoryViews()
+  }
+
+  async clearHistory() {
+    this.settings.history = []
+    await this.saveSettings()
+    this.refreshHistoryViews()
+  }
+
+  refreshHistoryViews() {
+    for (const leaf of this.app.workspace.getLeavesOfType(HISTORY_VIEW)) {
+      if (leaf.view instanceof PasteHistoryView) leaf.view.render()
+    }
+  }
+
+  async openHistory() {
+    const leaf = this.app.workspace.getLeavesOfType(HISTORY_VIEW)[0] ?? this.app.workspace.getRightLeaf(false)
+    await leaf.setViewState({ type: HISTORY_VIEW, active: true })
+    this.app.workspace.revealLeaf(leaf)
+  }
+
+  /** Editor para inserir a partir de um painel lateral: o da última nota em foco */
+  editorForInsert(): Editor | undefined {
+    const leaf = this.app.workspace.getMostRecentLeaf(this.app.workspace.rootSplit)
+    return leaf?.view instanceof MarkdownView ? leaf.view.editor : this.getActiveEditor()
+  }
+
+  /** Abre as configurações do plugin com a ligação em destaque; regras de notas abrem a nota */
+  async openRuleInSettings(linkId: Id) {
+    const note = this.noteRules.find(n => n.link.id === linkId)
+    if (note) {
+      const file = this.app.vault.getAbstractFileByPath(note.path)
+      if (file instanceof TFile) await this.app.workspace.getLeaf(false).openFile(file, { eState: { line: note.line - 1 } })
+      return
+    }
+    this.focusLinkId = linkId
+    // `app.setting` (o modal de configurações) não está na API pública
+    const setting = (this.app as App & { setting?: { open(): void; openTabById(id: string): void } }).setting
+    setting?.open()
+    setting?.openTabById(this.manifest.id)
+  }
+
+  /** Grava os settings daqui a pouco, juntando várias mudanças (uso, histórico) numa escrita */
+  private saveSoon() {
+    window.clearTimeout(this.saveTimer)
+    this.saveTimer = window.setTimeout(() => {
+      this.saveTimer = 0
+      void this.saveSettings()
+    }, 2000)
+  }
+
+  /** Ligações sem uso há `days` dias (nunca usadas contam a partir de `usageSince`) */
+  staleLinks(days: number): LinkItem[] {
+    const limit = Date.now() - days * 24 * 60 * 60 * 1000
+    return (this.settings.links || []).filter(L => {
+      const last = this.settings.usage[L.id]?.lastUsed ?? this.settings.usageSince
+      return last < limit
+    })
+  }
+
+  /** Exportação/backup: settings sem o cache local de `fetch`, com hash para achar backups iguais */
+  buildPayload(reason?: string) {
+    const now = new Date()
+    const settings = Object.assign({}, this.settings, {
+      fetchCache: undefined,
+      usage: undefined,
+      history: this.settings.historyInExports ? this.settings.history : undefined,
+    })
+    return {
+      meta: {
+        savedAt: now.toISOString(),
+        savedAtLocal: now.toString(),
+        pluginVersion: this.manifest?.version ?? 'unknown',
+        settingsFormatVersion: this.settings.settingsFormatVersion,
+        hash: hashString(JSON.stringify(settings)),
+        reason,
+      },
+      settings,
+    }
+  }
+
+  backupFolder(): string {
+    return this.settings.backupFolder.trim().replace(/^\/+|\/+$/g, "") || DEFAULT_SETTINGS.backupFolder
+  }
+
+  /** Backups da pasta configurada, do mais recente para o mais antigo */
+  async listBackups(): Promise<BackupInfo[]> {
+    const prefix = `${this.backupFolder()}/`
+    const out: BackupInfo[] = []
+    for (const file of this.app.vault.getFiles()) {
+      if (!file.path.startsWith(prefix) || file.extension.toLowerCase() !== 'json') continue
+      try {
+        const parsed = JSON.parse(await this.app.vault.cachedRead(file))
+        const settings = parsed?.settings ?? parsed
+        out.push({
+          file,
+          savedAt: Date.parse(parsed?.meta?.savedAt) || file.stat.mtime,
+          hash: parsed?.meta?.hash ?? hashString(JSON.stringify(settings)),
+          reason: parsed?.meta?.reason ?? "",
+          settings,
+        })
+      } catch {
+        out.push({ file, savedAt: file.stat.mtime, hash: "", reason: "", settings: null })
+      }
+    }
+    return out.sort((a, b) => b.savedAt - a.savedAt)
+  }
+
+  /** Grava um backup, exceto se nada mudou desde o último; depois aplica a retenção.
+   *  Retorna null quando pulou (sem mudanças ou data.json recusado). */
+  async backupNow(reason: string): Promise<TFile | null> {
+    if (this.settingsProblem) return null
+    const payload = this.buildPayload(reason)
+    const latest = (await this.listBackups())[0]
+    if (latest?.hash === payload.meta.hash) return null
+    const folder = this.backupFolder()
+    try { await this.app.vault.createFolder(folder) } catch (_) { /* já existe */ }
+    const file = await this.app.vault.create(`${folder}/paste-transform-backup-${fileStamp(new Date())}.json`, JSON.stringify(payload, null, 2))
+    await this.pruneBackups()
+    return file
+  }
+
+  /** Remove os backups fora da retenção; o mais recente e arquivos ilegíveis nunca são removidos */
+  async pruneBackups() {
+    const all = (await this.listBackups()).filter(b => b.settings)
+    const keep = new Set<TFile>(all.slice(0, 1).map(b => b.file))
+    if (this.settings.backupRetention === 'last') {
+      if (this.settings.backupKeepLast <= 0) return
+      for (const b of all.slice(0, this.settings.backupKeepLast)) keep.add(b.file)
+    } else {
+      // O mais recente de cada período, para os últimos `limit` períodos com backup
+      const pick = (period: (t: number) => string, limit: number) => {
+        const seen = new Set<string>()
+        for (const b of all) {
+          const key = period(b.savedAt)
+          if (seen.has(key)) continue
+          if (seen.size >= limit) break
+          seen.add(key)
+          keep.add(b.file)
+        }
+      }
+      pick(t => moment(t).format("YYYY-MM-DD"), this.settings.backupKeepDaily)
+      pick(t => moment(t).format("GGGG-[W]WW"), this.settings.backupKeepWeekly)
+    }
+    for (const b of all) if (!keep.has(b.file)) await this.trashFile(b.file)
+  }
+
+  /** Backup diário: só se o último backup não for de hoje */
+  private async dailyBackupIfDue() {
+    if (!this.settings.dailyBackup) return
+    const latest = (await this.listBackups())[0]
+    if (latest && moment(latest.savedAt).isSame(moment(), "day")) return
+    try { await this.backupNow('daily') }
+    catch (e) { console.error("Paste Transform: backup diário falhou", e) }
+  }
+
+  /** Move para a lixeira do sistema, com fallback */
+  async trashFile(file: TFile) {
+    if (typeof (this.app.vault as any).trash === 'function') {
+      await (this.app.vault as any).trash(file, true) // true = system trash
+    } else if (typeof (this.app.vault as any).delete === 'function') {
+      await (this.app.vault as any).delete(file)
+    } else if ((this.app.vault.adapter as any)?.remove) {
+      await (this.app.vault.adapter as any).remove(file.path)
+    } else {
+      throw new Error("API de exclusão indisponível.")
+    }
+  }
+
+  compileRules() {
+    this.rules = []
+    this.compileErrors = []
+    this.patternMap.clear()
+    this.replacerMap.clear()
+
+    const patterns = [...this.settings.patterns as PatternItem[], ...this.noteRules.map(n => n.pattern)]
+    const replacers = [...this.settings.replacers as ReplacerItem[], ...this.noteRules.map(n => n.replacer)]
+    const scripts = new Map<Id, ScriptFn>()
+    for (const p of patterns) this.patternMap.set(p.id, p)
+    for (const r of replacers) {
+      this.replacerMap.set(r.id, r)
+      if (r.type !== 'script') continue
+      try { scripts.set(r.id, compileScript(r.text, this.settings.scriptTimeoutMs)) }
+      catch (e) { this.compileErrors.push({ replacerId: r.id, message: `Script: ${errorMessage(e)}` }) }
+    }
+
+    // Regras de notas vêm depois das ligações das configurações
+    for (const L of [...this.settings.links || [], ...this.noteRules.map(n => n.link)]) {
+      if (!this.isLinkEnabled(L)) continue
+      const p = this.patternMap.get(L.patternId)
+      const r = this.replacerMap.get(L.replacerId)
+      if (!p || !r) continue
+      if (r.type === 'script' && !scripts.has(r.id)) {
+        this.compileErrors.push({ linkId: L.id, replacerId: r.id, message: "Regra ignorada: o script do replacer não compila." })
+        continue
+      }
+      try { this.rules.push(new ReplaceRule(p, r, L, scripts.get(r.id))) }
+      catch { /* regex inválida: fica fora das regras e é apontada por lintRules */ }
+    }
+    this.outboundRules = []
+    for (const o of this.settings.outbound || []) {
+      try { this.outboundRules.push(new OutboundCompiled(o)) }
+      catch (e) { this.compileErrors.push({ outboundId: o.id, message: `Regex: ${errorMessage(e)}` }) }
+    }
+    if (this.compileErrors.length && this.settings.debugMode) console.log("Paste Transform: erros de compilação", this.compileErrors)
+  }
+
+  applyRules(source: string | PasteInput | null | undefined): string {
+    return this.transform(source).output
   }
 
-  onunload() {
-    // Nada específico além do cleanup padrão do Obsidian
+  /** Pipeline: a primeira regra que casa transforma o texto; se estiver marcada
+   *  para continuar, a saída segue para as regras seguintes, e assim por diante. */
+  transform(source: string | PasteInput | null | undefined, ctx: PasteContext = {}, only = this.rules): TransformResult {
+    if (source == null) return { output: "", steps: [], errors: [], jobs: [] }
+    const input = typeof source === 'string' ? { text: source } : source
+    const rules = only.filter(r => r.appliesTo(ctx))
+    ctx = Object.assign({ clipboard: input.text }, ctx)
+    const whole = this.transformInput(input, rules, ctx)
+    if (this.usesPerLine(input, whole)) {
+      return joinLineResults(input.text.split(/\r?\n/).map(line => this.transformInput({ text: line }, rules, ctx)))
+    }
+    return whole
   }
 
-  onPaste(event: ClipboardEvent) {
-    if (!this.settings.active) return
+  /** O modo por linha vale para este texto? Regras de HTML/link valem para o clipboard inteiro:
+   *  se uma delas venceu, o texto não é dividido. */
+  usesPerLine(input: PasteInput, whole: TransformResult): boolean {
+    if (whole.steps.length > 0 && whole.steps[0].flavor !== 'text') return false
+    return this.settings.perLine && /\r?\n/.test(input.text)
+  }
 
-    if (event.defaultPrevented) {
-      if (this.settings.debugMode) console.log("Event already prevented.")
-      return
+  /** transform() com as regexes no RegexGuard: cada regra procura no worker, com orçamento, o texto
+   *  que de fato lê (inclusive a saída das regras anteriores do pipeline) e aqui só se montam as
+   *  substituições. Resolve com a regra que estourou o orçamento, se houver. */
+  async transformGuarded(input: PasteInput, ctx: PasteContext = {}, only = this.rules, shared?: RegexSession): Promise<TransformResult | ReplaceRule> {
+    const rules = only.filter(r => r.appliesTo(ctx))
+    ctx = Object.assign({ clipboard: input.text }, ctx)
+    const session = shared ?? this.regexGuard.session(this.settings.regexBudgetMs)
+    try {
+      const whole = await this.transformLanes([input], rules, ctx, session)
+      if (whole instanceof ReplaceRule || !this.usesPerLine(input, whole[0])) return whole instanceof ReplaceRule ? whole : whole[0]
+      const lines = await this.transformLanes(input.text.split(/\r?\n/).map(text => ({ text })), rules, ctx, session)
+      return lines instanceof ReplaceRule ? lines : joinLineResults(lines)
+    } finally {
+      if (!shared) session.close()
     }
-    const types = event.clipboardData?.types
-    if (!types || types.length !== 1 || types[0] !== "text/plain") return
+  }
 
-    const plainText = event.clipboardData?.getData("text/plain")
-    if (!plainText) return
+  /** transformInput() de vários textos de uma vez, uma busca no worker por regra */
+  private async transformLanes(inputs: PasteInput[], rules: ReplaceRule[], ctx: PasteContext, session: RegexSession): Promise<TransformResult[] | ReplaceRule> {
+    const lanes = inputs.map(input => ({ input, done: false, result: { output: input.text, steps: [], errors: [], jobs: [] } as TransformResult }))
+    for (const rule of rules) {
+      const active = lanes
+        .map(lane => ({ lane, subject: lane.done ? undefined : rule.subject(lane.input, lane.result.output, lane.result.steps.length === 0) }))
+        .filter((x): x is { lane: typeof lanes[number]; subject: string } => x.subject != null)
+      if (!active.length) continue
+      const found = await session.matchAll(rule.pattern, active.map(x => x.subject))
+      if (!found) return rule
+      active.forEach(({ lane, subject }, i) => {
+        if (!found[i].length) return
+        const r = lane.result
+        let output: string
+        const ruleJobs: FetchJob[] = []
+        try { output = rule.applyMatches(subject, found[i], lane.input, ctx, ruleJobs) }
+        catch (e) {
+          r.errors.push({ linkId: rule.linkId, message: errorMessage(e) })
+          return
+        }
+        r.steps.push({ linkId: rule.linkId, flavor: rule.flavor, input: subject, output })
+        r.jobs.push(...ruleJobs)
+        r.output = output
+        if (!rule.continue) lane.done = true
+      })
+    }
+    return lanes.map(lane => lane.result)
+  }
 
-    const result = this.applyRules(plainText)
-    if (result !== plainText) {
-      const ed = this.getActiveEditor()
-      if (ed?.replaceSelection) {
-        ed.replaceSelection(result)
-        event.preventDefault()
+  private transformInput(input: PasteInput, rules: ReplaceRule[], ctx: PasteContext): TransformResult {
+    let current = input.text
+    const steps: TransformStep[] = []
+    const errors: RuleError[] = []
+    const jobs: FetchJob[] = []
+    for (const rule of rules) {
+      const subject = rule.subject(input, current, steps.length === 0)
+      if (subject == null || subject.search(rule.pattern) === -1) continue
+      let output: string
+      const ruleJobs: FetchJob[] = []
+      try { output = rule.apply(subject, input, ctx, ruleJobs) }
+      catch (e) {
+        errors.push({ linkId: rule.linkId, message: errorMessage(e) })
+        continue
       }
+      steps.push({ linkId: rule.linkId, flavor: rule.flavor, input: subject, output })
+      jobs.push(...ruleJobs)
+      current = output
+      if (!rule.continue) break
     }
+    return { output: current, steps, errors, jobs }
   }
 
-  /** Editor ativo (API nova activeEditor → fallback MarkdownView) */
-  private getActiveEditor(app: App = this.app): Editor | undefined {
-    const ws = app.workspace as any
-    if ("activeEditor" in ws && ws.activeEditor?.editor) return ws.activeEditor.editor as Editor
-    return app.workspace.getActiveViewOfType(MarkdownView)?.editor
+  /** Explica, ligação por ligação e em ordem de prioridade, o que transform() faz com o texto: o que
+   *  casou (primeira ocorrência e grupos), qual regra venceu e por que as outras ficaram de fora. Refaz
+   *  o pipeline com as mesmas regras; no modo por linha, explica a primeira linha que alguma regra muda
+   *  (`line`, 1-based). Entradas grandes casam no RegexGuard, como no paste; resolve com a regra que
+   *  estourou o orçamento, se houver. */
+  async explainRules(input: PasteInput, ctx: PasteContext): Promise<{ line?: number; rules: RuleExplanation[] } | ReplaceRule> {
+    ctx = Object.assign({ clipboard: input.text }, ctx)
+    const session = this.needsGuard(input) ? this.regexGuard.session(this.settings.regexBudgetMs) : new RegexSession(null, 0)
+    try {
+      const whole = await this.explainLanes([input], ctx, session)
+      if (whole instanceof ReplaceRule) return whole
+      const winner = whole[0].find(e => e.status === 'won')
+      const winnerFlavor = winner && this.rules.find(r => r.linkId === winner.linkId)?.flavor
+      if (!this.settings.perLine || !/\r?\n/.test(input.text) || (winnerFlavor && winnerFlavor !== 'text')) return { rules: whole[0] }
+      const lines = await this.explainLanes(input.text.split(/\r?\n/).map(text => ({ text })), ctx, session)
+      if (lines instanceof ReplaceRule) return lines
+      const at = Math.max(0, lines.findIndex(l => l.some(e => e.status === 'won')))
+      return { line: at + 1, rules: lines[at] }
+    } finally {
+      session.close()
+    }
   }
 
-  /** Migração v1(1×1) → v300(N×N) */
-  private migrateIfNeeded(s: PasteTransformSettings) {
-    const looksNew =
-      Array.isArray(s.patterns) &&
-      (s.patterns as any[]).length > 0 &&
-      typeof (s.patterns as any[])[0] === 'object' &&
-      Array.isArray(s.replacers)
-
-    if (looksNew) {
-      ; (s.patterns as any[]).forEach((p: any) => { if (!p.id) p.id = uid('p') })
-        ; (s.replacers as any[]).forEach((r: any) => { if (!r.id) r.id = uid('r') })
-      if (!Array.isArray(s.links)) s.links = []
-      s.settingsFormatVersion = 300
-      return
+  /** Explicação de cada texto (o inteiro ou cada linha), uma busca por regra para todos eles */
+  private async explainLanes(inputs: PasteInput[], ctx: PasteContext, session: RegexSession): Promise<RuleExplanation[][] | ReplaceRule> {
+    const profile = this.activeProfile()
+    const lanes = inputs.map(input => ({ input, current: input.text, first: true, stopped: null as Id | null, out: [] as RuleExplanation[] }))
+    for (const L of [...this.settings.links || [], ...this.noteRules.map(n => n.link)]) {
+      const entries = lanes.map(lane => {
+        const e: RuleExplanation = { linkId: L.id, status: 'no-match', groups: [] }
+        lane.out.push(e)
+        return e
+      })
+      const skip = (status: ExplainStatus, reason: string) => entries.forEach(e => { e.status = status; e.reason = reason })
+      if (!this.isLinkEnabled(L)) {
+        skip('disabled', profile && !isNoteRuleId(L.id) ? `Desabilitada no perfil “${profile.name}”.` : "Desabilitada.")
+        continue
+      }
+      const rule = this.rules.find(r => r.linkId === L.id)
+      if (!rule) {
+        const p = this.patternMap.get(L.patternId)
+        let reason = this.compileErrors.find(er => er.linkId === L.id)?.message
+        if (!reason && (!p || !this.replacerMap.has(L.replacerId))) reason = "Padrão ou replacer inexistente."
+        if (!reason && p) {
+          try { new RegExp(p.text, 'g' + normalizeFlags(p.flags)) }
+          catch (err) { reason = `Regex: ${errorMessage(err)}` }
+        }
+        skip('invalid', reason ?? "Não compila.")
+        continue
+      }
+      if (!rule.appliesTo(ctx)) {
+        skip('out-of-scope', rule.blockedContexts.includes(ctx.md ?? 'text')
+          ? `Bloqueada no contexto “${MD_CONTEXT_LABELS[ctx.md ?? 'text']}”.`
+          : `Fora do escopo: ${describeScope(rule.scope)}.`)
+        continue
+      }
+      const active: { i: number; subject: string }[] = []
+      lanes.forEach((lane, i) => {
+        const subject = rule.subject(lane.input, lane.current, lane.first)
+        if (subject != null) { active.push({ i, subject }); return }
+        entries[i].reason = rule.flavor === 'text' || !lane.first
+          ? "Depois da primeira etapa só resta texto puro."
+          : `O clipboard não tem ${rule.flavor === 'html' ? "HTML" : "um link único no HTML"}.`
+      })
+      if (!active.length) continue
+      const found = await session.matchAll(rule.pattern, active.map(a => a.subject))
+      if (!found) return rule
+      active.forEach(({ i, subject }, k) => {
+        const lane = lanes[i]
+        const e = entries[i]
+        e.subject = subject
+        const m = found[k][0]
+        if (!m) return
+        e.span = { from: m.offset, to: m.offset + m.match.length }
+        e.groups = [
+          ...m.groups.map((value, g) => ({ name: `$${g + 1}`, value })),
+          ...Object.entries(m.named ?? {}).map(([name, value]) => ({ name, value })),
+        ]
+        e.status = 'matched'
+        if (lane.stopped) { e.reason = `${this.describeRule(lane.stopped)} venceu antes.`; return }
+        try { lane.current = rule.applyMatches(subject, found[k], lane.input, ctx, []) }
+        catch (err) { e.reason = `Casou, mas a substituição falhou: ${errorMessage(err)}`; return }
+        e.status = lane.first ? 'won' : 'fired'
+        lane.first = false
+        if (!rule.continue) lane.stopped = L.id
+      })
     }
+    return lanes.map(lane => lane.out)
+  }
 
-    const oldPatterns = Array.isArray(s.patterns) ? (s.patterns as string[]) : []
-    const oldReplacers = Array.isArray(s.replacers) ? (s.replacers as string[]) : []
+  /** Caminho configurado em ruleNotes (com ou sem `.md`) */
+  private isRuleNote(path: string): boolean {
+    return this.settings.ruleNotes.some(p => p === path || `${p}.md` === path)
+  }
 
-    const patterns: PatternItem[] = oldPatterns.map(t => ({ id: uid('p'), text: t }))
-    const replacers: ReplacerItem[] = oldReplacers.map(t => ({ id: uid('r'), text: t }))
+  private scheduleRuleNotes() {
+    window.clearTimeout(this.ruleNotesTimer)
+    this.ruleNotesTimer = window.setTimeout(() => void this.loadRuleNotes(), 300)
+  }
 
-    const n = Math.min(patterns.length, replacers.length)
-    const links: LinkItem[] = []
-    for (let i = 0; i < n; i++) {
-      const enabled = Array.isArray(s.enabled) && typeof s.enabled[i] === 'boolean' ? !!s.enabled[i] : true
-      const comment = Array.isArray(s.comments) && typeof s.comments[i] === 'string' ? s.comments[i] : ""
-      links.push({ id: uid('link'), patternId: patterns[i].id, replacerId: replacers[i].id, enabled, comment })
+  /** Relê as notas de regras e recompila; erros ficam em noteRuleErrors (nota + linha) */
+  async loadRuleNotes() {
+    const rules: NoteRule[] = []
+    const errors: NoteRuleError[] = []
+    for (const path of this.settings.ruleNotes) {
+      const file = this.app.vault.getAbstractFileByPath(path) ?? this.app.vault.getAbstractFileByPath(`${path}.md`)
+      if (!(file instanceof TFile)) {
+        errors.push({ path, line: 0, message: "Nota não encontrada." })
+        continue
+      }
+      const parsed = parseRuleNote(file.path, await this.app.vault.cachedRead(file))
+      rules.push(...parsed.rules)
+      errors.push(...parsed.errors)
     }
+    this.noteRules = rules
+    this.noteRuleErrors = errors
+    if (errors.length && this.settings.debugMode) console.log("Paste Transform: erros nas notas de regras", errors)
+    this.compileRules()
+  }
 
-    s.patterns = patterns
-    s.replacers = replacers
-    s.links = links
-    s.settingsFormatVersion = 300
-    delete (s as any).enabled
-    delete (s as any).comments
+  /** Perfil em uso: o escolhido pela pasta (se ligado) ou o escolhido manualmente */
+  activeProfile(): RuleProfile | null {
+    const find = (id: Id | null) => id ? this.settings.profiles.find(p => p.id === id) : undefined
+    return (this.settings.autoProfileByFolder ? find(this.autoProfileId) : undefined) ?? find(this.settings.activeProfileId) ?? null
   }
 
-  private normalizeDefaultsIfEmpty(s: PasteTransformSettings) {
-    if (!Array.isArray(s.links) || s.links.length === 0) {
-      const ps = s.patterns as PatternItem[]
-      const rs = s.replacers as ReplacerItem[]
-      const n = Math.min(ps.length, rs.length)
-      s.links = []
-      for (let i = 0; i < n; i++) {
-        s.links.push({ id: uid('link'), patternId: ps[i].id, replacerId: rs[i].id, enabled: true, comment: "" })
-      }
+  isLinkEnabled(L: LinkItem): boolean {
+    // Regras de notas não entram nos perfis: valem enquanto a nota estiver na lista
+    if (isNoteRuleId(L.id)) return L.enabled !== false
+    const profile = this.activeProfile()
+    return profile ? profile.enabledLinks.includes(L.id) : L.enabled !== false
+  }
+
+  /** Habilita/desabilita uma ligação no perfil em uso, ou na própria ligação sem perfil */
+  setLinkEnabled(L: LinkItem, enabled: boolean) {
+    const profile = this.activeProfile()
+    if (!profile) {
+      L.enabled = enabled
+      return
     }
+    profile.enabledLinks = profile.enabledLinks.filter(id => id !== L.id)
+    if (enabled) profile.enabledLinks.push(L.id)
   }
 
-  async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData())
-    this.migrateIfNeeded(this.settings)
-    this.normalizeDefaultsIfEmpty(this.settings)
+  async useProfile(id: Id | null) {
+    this.settings.activeProfileId = id
+    this.autoProfileId = null
+    await this.saveSettings()
     this.compileRules()
+    this.updateStatusEl()
+    new Notice(`Paste Transform: ${this.activeProfile()?.name ?? "sem perfil"}`)
   }
 
-  async saveSettings() { await this.saveData(this.settings) }
-
-  compileRules() {
-    this.rules = []
-    this.patternMap.clear()
-    this.replacerMap.clear()
-
-    const patterns = this.settings.patterns as PatternItem[]
-    const replacers = this.settings.replacers as ReplacerItem[]
-    for (const p of patterns) this.patternMap.set(p.id, p.text)
-    for (const r of replacers) this.replacerMap.set(r.id, r.text)
+  /** Exclui as ligações escolhidas e as referências a elas nos perfis e nas estatísticas de uso */
+  removeLinks(drop: (L: LinkItem) => boolean) {
+    const gone = new Set((this.settings.links || []).filter(drop).map(L => L.id))
+    if (!gone.size) return
+    this.settings.links = (this.settings.links || []).filter(L => !gone.has(L.id))
+    for (const p of this.settings.profiles) p.enabledLinks = p.enabledLinks.filter(id => !gone.has(id))
+    for (const id of gone) delete this.settings.usage[id]
+  }
 
-    for (const L of this.settings.links || []) {
-      if (!L.enabled) continue
-      const p = this.patternMap.get(L.patternId)
-      const r = this.replacerMap.get(L.replacerId)
-      if (typeof p !== 'string' || typeof r !== 'string') continue
-      try { this.rules.push(new ReplaceRule(p, r)) }
-      catch { /* ignora inválidas */ }
+  /** Registra o comando "Use profile: …" dos perfis novos e atualiza o nome dos renomeados. A API
+   *  pública não remove comandos: o de um perfil removido continua registrado, mas some da paleta
+   *  (checkCallback falso) até o Obsidian recarregar o plugin. */
+  syncProfileCommands() {
+    for (const p of this.settings.profiles) {
+      const name = `Use profile: ${p.name}`
+      const existing = this.profileCommands.get(p.id)
+      // addCommand prefixa o nome com o do plugin; ao renomear, o prefixo é mantido
+      if (existing) { existing.name = `${this.manifest.name}: ${name}`; continue }
+      this.profileCommands.set(p.id, this.addCommand({
+        id: `paste-transform-profile-${p.id}`,
+        name,
+        checkCallback: (checking) => {
+          if (!this.settings.profiles.some(x => x.id === p.id)) return false
+          if (!checking) void this.useProfile(p.id)
+          return true
+        },
+      }))
     }
   }
 
-  applyRules(source: string | null | undefined): string {
-    if (source == null) return ""
-    let result = source
-    for (const rule of this.rules) {
-      if (source.search(rule.pattern) !== -1) {
-        result = source.replace(rule.pattern, rule.replacer)
-        break
-      }
+  private syncAutoProfile(file: TFile | null) {
+    if (!this.settings.autoProfileByFolder || !file) return
+    const match = this.settings.profiles.find(p => {
+      if (!p.folder?.trim()) return false
+      try { return globToRegExp(p.folder).test(file.path) }
+      catch { return false }
+    })
+    const next = match?.id ?? null
+    if (next === this.autoProfileId) return
+    this.autoProfileId = next
+    this.compileRules()
+    this.updateStatusEl()
+  }
+
+  private openStatusMenu(evt: MouseEvent) {
+    const menu = new Menu()
+    menu.addItem(item => item
+      .setTitle(this.settings.active ? "Desativar Paste Transform" : "Ativar Paste Transform")
+      .setIcon(this.settings.active ? "pause" : "play")
+      .onClick(() => this.toggleActive()))
+    menu.addSeparator()
+    const current = this.activeProfile()
+    menu.addItem(item => item
+      .setTitle("Sem perfil")
+      .setChecked(!current)
+      .onClick(() => this.useProfile(null)))
+    for (const p of this.settings.profiles) {
+      menu.addItem(item => item
+        .setTitle(p.name)
+        .setChecked(current?.id === p.id)
+        .onClick(() => this.useProfile(p.id)))
     }
-    return result
+    menu.showAtMouseEvent(evt)
   }
 
   /** Toggle global (hotkey, status bar, settings) */
@@ -236,33 +2596,21 @@ export default class PasteTransform extends Plugin {
     new Notice(`Paste Transform ${next ? 'ativado' : 'desativado'}`)
   }
 
-  private updateStatusEl() {
+  updateStatusEl() {
     if (!this.statusEl) return
-    this.statusEl.setText(this.settings.active ? 'PT: ON' : 'PT: OFF')
+    const profile = this.activeProfile()
+    this.statusEl.setText(`${this.settings.active ? 'PT: ON' : 'PT: OFF'}${profile ? ` · ${profile.name}` : ""}`)
     this.statusEl.setAttribute(
       'aria-label',
-      this.settings.active ? 'Paste Transform ativo — clique para desativar' : 'Paste Transform desativado — clique para ativar'
+      `${this.settings.active ? 'Paste Transform ativo' : 'Paste Transform desativado'} — clique para ativar/desativar ou trocar de perfil`
     )
   }
 }
 
 /** =====================  UI / Settings  ===================== */
 
-class PasteTransformSettingsTab extends PluginSettingTab {
-  plugin: PasteTransform
-
-  constructor(app: App, plugin: PasteTransform) { super(app, plugin); this.plugin = plugin }
-
-  display(): void {
-    const { containerEl } = this
-    containerEl.empty()
-
-    // CSS
-    const STYLE_ID = "pte-2col-style"
-    if (!document.getElementById(STYLE_ID)) {
-      const style = document.createElement("style")
-      style.id = STYLE_ID
-      style.textContent = `
+const STYLE_ID = "pte-2col-style"
+const PTE_CSS = `
 .pte-root{ border:1px solid var(--background-modifier-border); border-radius:12px; padding:12px; }
 .pte-hdr{ display:flex; align-items:center; justify-content:space-between; margin-bottom:8px; gap: 8px; }
 .pte-ttl{ margin:0; font-weight:700; }
@@ -276,6 +2624,32 @@ class PasteTransformSettingsTab extends PluginSettingTab {
 .pte-list{ list-style:none; margin:0; padding:0; display:flex; flex-direction:column; gap:6px; }
 .pte-item{ display:grid; grid-template-columns:28px 1fr auto auto auto; gap:6px; align-items:center;
   background:var(--background-secondary); border:1px solid var(--background-modifier-border); border-radius:10px; padding:6px 8px; }
+.pte-item.pte-item-pattern{ grid-template-columns:28px 1fr auto auto auto auto; }
+.pte-item.pte-item-replacer{ grid-template-columns:28px 1fr auto auto auto auto; }
+.pte-script{ font-family:var(--font-monospace); }
+.pte-script-editor{ grid-column: 1 / -1; font-family:var(--font-monospace); min-height:8em; resize:vertical; }
+.pte-err{ grid-column: 1 / -1; color:var(--text-error); font-size:.85em; white-space:pre-wrap; }
+.pte-err:empty{ display:none; }
+.pte-warn{ grid-column: 1 / -1; color:var(--text-warning); font-size:.85em; }
+.pte-badge{ display:inline-block; padding:0 6px; border-radius:8px; background:var(--background-modifier-border); color:var(--text-normal); font-size:.8em; }
+.pte-badge.error{ background:var(--background-modifier-error); color:var(--text-on-accent); }
+.pte-lint{ margin-bottom:8px; }
+.pte-lint-list{ margin:0 0 8px; padding-left:18px; font-size:.9em; }
+.pte-clickable{ cursor:pointer; }
+.pte-history-head{ display:flex; align-items:center; justify-content:space-between; gap:8px; }
+.pte-history-item{ border:1px solid var(--background-modifier-border); border-radius:8px; padding:6px 8px; margin-bottom:8px; }
+.pte-history-rule{ display:block; font-size:.85em; }
+.pte-history-actions{ display:flex; flex-wrap:wrap; gap:4px; margin-top:4px; }
+.pte-flash{ animation: pte-flash 1.6s ease-out; }
+@keyframes pte-flash{ from{ background:var(--text-highlight-bg); } to{ background:transparent; } }
+.pte-usage{ font-size:.85em; color:var(--text-muted); margin:2px 0 4px; }
+.pte-usage.stale summary{ color:var(--text-warning); }
+.pte-banner{ border:1px solid var(--text-error); border-radius:8px; padding:8px; margin-bottom:8px; font-size:.9em; }
+.pte-item.pte-item-readonly{ grid-template-columns:28px 1fr auto; opacity:.85; border-style:dashed; }
+.pte-src{ font-size:.8em; white-space:nowrap; }
+.pte-sub{ grid-column: 1 / -1; display:flex; align-items:center; gap:6px; font-size:.85em; color:var(--text-muted); }
+.pte-flags{ flex:none; width:4.5em; padding:2px 6px; font-family:var(--font-monospace); }
+.pte-invalid{ border-color:#c44a4a; }
 .pte-txt{ white-space:nowrap; overflow:hidden; text-overflow:ellipsis; }
 .pte-btn{ border:1px solid var(--background-modifier-border); border-radius:8px; padding:4px 8px; background:var(--background-primary-alt); cursor:pointer; }
 .pte-btn.ghost{ background:transparent; }
@@ -293,12 +2667,655 @@ class PasteTransformSettingsTab extends PluginSettingTab {
 .pte-mini{ display:inline-flex; align-items:center; gap:6px; border:1px solid var(--background-modifier-border); border-radius:999px; padding:2px 8px; background:var(--background-primary); }
 .pte-mini input{ margin:0; }
 .pte-links-panel{ margin-top: 12px; }
+.pte-handle{ cursor:grab; }
+.pte-dragging{ opacity:.5; }
+.pte-drop-before{ box-shadow: 0 -2px 0 var(--interactive-accent); }
+.pte-drop-after{ box-shadow: 0 2px 0 var(--interactive-accent); }
+.pte-link-row{ border-radius:8px; }
+.pte-prio{ display:inline-block; min-width:2.2em; margin-right:6px; font-weight:700; color:var(--text-accent); }
+.pte-rule-tests{ margin:0 0 8px 12px; }
+.pte-rule-tests > summary{ cursor:pointer; color:var(--text-muted); }
+.pte-test-list{ display:flex; flex-direction:column; gap:6px; }
+.pte-test{ border:1px solid var(--background-modifier-border); border-radius:8px; padding:6px 8px; font-family:var(--font-monospace); font-size:.85em; white-space:pre-wrap; }
+.pte-test.fail{ border-color:#c44a4a80; }
+.pte-explain.won{ border-color:var(--interactive-accent); }
+.pte-explain.off{ opacity:.5; }
+.pte-outbound{ margin-top:12px; }
+.pte-outbound-result{ white-space:pre-wrap; font-size:.85em; }
+.pte-outbound-result:empty{ display:none; }
+.pte-pick-label{ font-weight:600; }
+.pte-pick-preview{ margin:4px 0 0; max-height:6em; overflow:hidden; white-space:pre-wrap; font-size:.85em; color:var(--text-muted); }
+.pte-review-list{ display:flex; flex-direction:column; gap:6px; max-height:60vh; overflow:auto; }
+.pte-review-row{ display:flex; gap:8px; align-items:flex-start; border:1px solid var(--background-modifier-border); border-radius:8px; padding:6px 8px; }
+.pte-review-rule{ color:var(--text-muted); font-size:.85em; }
+.pte-review del{ color:var(--text-error); }
+.pte-review ins{ color:var(--text-success); text-decoration:none; }
 @media (max-width:800px){ .pte-stage{ grid-template-columns:1fr; } }
-      `
-      document.head.appendChild(style)
+`
+
+/** CSS das configurações e dos modais (injetado uma vez por janela) */
+function ensureStyles() {
+  if (document.getElementById(STYLE_ID)) return
+  const style = document.createElement("style")
+  style.id = STYLE_ID
+  style.textContent = PTE_CSS
+  document.head.appendChild(style)
+}
+
+const REPLACER_TYPE_UI: Record<ReplacerType, { icon: string; label: string }> = {
+  text: { icon: "T", label: "Template de texto" },
+  script: { icon: "ƒ", label: "Script JavaScript" },
+  fetch: { icon: "🌐", label: "Busca na página da URL ({{title}})" },
+}
+
+const HISTORY_VIEW = "paste-transform-history"
+/** Entrada e saída guardadas no histórico são cortadas aqui: o histórico vai para o data.json a cada paste */
+const HISTORY_TEXT_MAX = 2000
+
+/** Painel lateral com os últimos pastes transformados e ações sobre cada um */
+class PasteHistoryView extends ItemView {
+  constructor(leaf: WorkspaceLeaf, private plugin: PasteTransform) {
+    super(leaf)
+  }
+
+  getViewType() { return HISTORY_VIEW }
+  getDisplayText() { return "Paste Transform — histórico" }
+  getIcon() { return "history" }
+
+  async onOpen() { this.render() }
+
+  render() {
+    const el = this.contentEl
+    el.empty()
+    el.addClass("pte-history")
+    const history = this.plugin.settings.history
+    const head = el.createDiv({ cls: "pte-history-head" })
+    head.createEl("h4", { text: `Histórico (${history.length}/${this.plugin.settings.historySize})` })
+    const clear = head.createEl("button", { text: "Limpar", cls: "pte-btn" })
+    clear.disabled = !history.length
+    clear.addEventListener("click", () => {
+      if (confirm("Apagar o histórico de pastes?")) void this.plugin.clearHistory()
+    })
+    if (!history.length) {
+      el.createEl("p", {
+        text: this.plugin.settings.historySize > 0 ? "Nenhum paste transformado ainda." : "Histórico desligado nas configurações.",
+        cls: "setting-item-description",
+      })
+      return
+    }
+
+    for (const h of history) {
+      const item = el.createDiv({ cls: "pte-history-item" })
+      item.createDiv({ text: `${new Date(h.at).toLocaleString()}${h.path ? ` · ${h.path}` : ""}`, cls: "pte-review-rule" })
+      h.linkIds.forEach((id, i) => {
+        const rule = item.createEl("a", { text: h.rules[i] ?? this.plugin.describeRule(id), href: "#", cls: "pte-history-rule" })
+        rule.setAttribute("title", "Abrir a regra nas configurações")
+        rule.addEventListener("click", (e) => {
+          e.preventDefault()
+          void this.plugin.openRuleInSettings(id)
+        })
+      })
+      item.createEl("pre", { text: h.input, cls: "pte-pick-preview" })
+      item.createDiv({ text: "↓", cls: "pte-review-rule" })
+      item.createEl("pre", { text: h.output, cls: "pte-pick-preview" })
+
+      const actions = item.createDiv({ cls: "pte-history-actions" })
+      const insert = (text: string) => {
+        const ed = this.plugin.editorForInsert()
+        if (!ed) { new Notice("Abra uma nota para inserir."); return }
+        ed.replaceSelection(text)
+      }
+      const button = (text: string, onClick: () => void) => {
+        const b = actions.createEl("button", { text, cls: "pte-btn" })
+        // Texto cortado no histórico: inserir ou testar usaria só o começo
+        b.disabled = !!h.truncated
+        if (h.truncated) b.setAttribute("title", `Texto maior que ${HISTORY_TEXT_MAX} caracteres: o histórico guardou só o começo.`)
+        b.addEventListener("click", onClick)
+      }
+      button("Inserir original", () => insert(h.input))
+      button("Inserir resultado", () => insert(h.output))
+      button("Virar teste", () => {
+        // O teste fica na primeira regra gravada no paste que ainda existe nas configurações
+        const links = this.plugin.settings.links || []
+        const L = h.linkIds.map(id => links.find(x => x.id === id)).find(x => x)
+        if (!L) { new Notice("As regras deste paste foram apagadas ou vêm de notas: os testes ficam nas ligações das configurações."); return }
+        if (L.tests?.some(t => t.input === h.input)) { new Notice(`${this.plugin.describeRule(L.id)} já tem um teste com esta entrada.`); return }
+        new HistoryTestModal(this.app, this.plugin, L, h).open()
+      })
+      if (h.truncated) {
+        item.createDiv({ text: `Texto maior que ${HISTORY_TEXT_MAX} caracteres: o histórico guardou só o começo, por isso inserir e virar teste ficam desativados.`, cls: "pte-review-rule" })
+      }
+    }
+  }
+}
+
+/** "Virar teste" do histórico: mostra a entrada e deixa ajustar o esperado antes de gravar o teste */
+class HistoryTestModal extends Modal {
+  constructor(app: App, private plugin: PasteTransform, private link: LinkItem, private entry: HistoryEntry) {
+    super(app)
+  }
+
+  onOpen() {
+    const { contentEl } = this
+    contentEl.empty()
+    contentEl.addClass("pte-review")
+    this.titleEl.setText(`Novo teste de ${this.plugin.describeRule(this.link.id)}`)
+
+    contentEl.createEl("p", { text: "Entrada:" })
+    contentEl.createEl("pre", { text: this.entry.input, cls: "pte-pick-preview" })
+    let expected = this.entry.output
+    let area: TextAreaComponent | null = null
+    new Setting(contentEl)
+      .setName("Saída esperada")
+      .setDesc("Começa com a saída gravada no histórico. Os testes rodam o pipeline completo, sem escopos.")
+      .addTextArea(t => {
+        area = t
+        t.setValue(expected).onChange(v => { expected = v })
+        t.inputEl.rows = 6
+      })
+    // O paste pode ter vindo de uma regra isolada do "Paste as…" ou de regras que mudaram depois
+    const current = this.plugin.transform(this.entry.input, { ignoreScope: true }).output
+    if (current !== this.entry.output) {
+      contentEl.createEl("p", { text: "O pipeline atual dá outra saída:", cls: "pte-warn" })
+      contentEl.createEl("pre", { text: current, cls: "pte-pick-preview" })
+      new Setting(contentEl).addButton(b => b.setButtonText("Usar a saída atual").onClick(() => {
+        expected = current
+        area?.setValue(current)
+      }))
+    }
+
+    new Setting(contentEl)
+      .addButton(b => b.setButtonText("Cancelar").onClick(() => this.close()))
+      .addButton(b => b
+        .setButtonText("Adicionar teste")
+        .setCta()
+        .onClick(async () => {
+          (this.link.tests ??= []).push({ input: this.entry.input, expected })
+          await this.plugin.saveSettings()
+          this.close()
+          new Notice(`Exemplo adicionado aos testes de ${this.plugin.describeRule(this.link.id)}.`)
+        }))
+  }
+
+  onClose() { this.contentEl.empty() }
+}
+
+/** "Paste as…": lista o texto original e a saída de cada regra que casa, com prévia */
+class PasteAsModal extends SuggestModal<PasteCandidate> {
+  constructor(
+    app: App,
+    private plugin: PasteTransform,
+    private editor: Editor,
+    private candidates: PasteCandidate[],
+    /** Texto do clipboard e nota, para o histórico */
+    private input: string,
+    private path: string,
+  ) {
+    super(app)
+    this.setPlaceholder("Colar como… (digite para filtrar)")
+  }
+
+  getSuggestions(query: string): PasteCandidate[] {
+    const q = query.toLowerCase()
+    return this.candidates.filter(c => !q || c.label.toLowerCase().includes(q) || c.output.toLowerCase().includes(q))
+  }
+
+  renderSuggestion(c: PasteCandidate, el: HTMLElement) {
+    el.createDiv({ text: c.label, cls: "pte-pick-label" })
+    el.createEl("pre", { text: c.output, cls: "pte-pick-preview" })
+  }
+
+  onChooseSuggestion(c: PasteCandidate) {
+    this.editor.replaceSelection(c.output)
+    this.plugin.recordUsage(c.steps ?? [])
+    this.plugin.recordHistory(this.input, c.output, c.steps ?? [], this.path)
+    for (const job of c.jobs) void this.plugin.completeJob(this.editor, job)
+  }
+}
+
+/** "Switch profile…": lista os perfis (e "sem perfil") */
+class ProfileSuggestModal extends SuggestModal<RuleProfile | null> {
+  constructor(app: App, private plugin: PasteTransform) {
+    super(app)
+    this.setPlaceholder("Trocar de perfil…")
+  }
+
+  getSuggestions(query: string): (RuleProfile | null)[] {
+    const q = query.toLowerCase()
+    return [null, ...this.plugin.settings.profiles].filter(p => !q || (p?.name ?? "sem perfil").toLowerCase().includes(q))
+  }
+
+  renderSuggestion(p: RuleProfile | null, el: HTMLElement) {
+    const current = this.plugin.activeProfile()
+    el.setText(`${(p?.id ?? null) === (current?.id ?? null) ? "✓ " : ""}${p?.name ?? "Sem perfil"}`)
+    if (p?.folder) el.createDiv({ text: p.folder, cls: "setting-item-description" })
+  }
+
+  onChooseSuggestion(p: RuleProfile | null) {
+    void this.plugin.useProfile(p?.id ?? null)
+  }
+}
+
+/** Revisão das substituições propostas para a nota inteira: aceitar/rejeitar uma a uma */
+class ScanReviewModal extends Modal {
+  constructor(app: App, private plugin: PasteTransform, private matches: ScanMatch[], private onAccept: (accepted: ScanMatch[]) => void) {
+    super(app)
+  }
+
+  onOpen() {
+    const { contentEl } = this
+    contentEl.empty()
+    contentEl.addClass("pte-review")
+    this.titleEl.setText(`Paste Transform — ${this.matches.length} substituição(ões) proposta(s)`)
+
+    const chosen = new Set(this.matches)
+    const list = contentEl.createDiv({ cls: "pte-review-list" })
+    for (const m of this.matches) {
+      const row = list.createEl("label", { cls: "pte-review-row" })
+      const chk = row.createEl("input", { type: "checkbox" })
+      chk.checked = true
+      chk.addEventListener("change", () => { if (chk.checked) chosen.add(m); else chosen.delete(m) })
+      const body = row.createDiv()
+      body.createDiv({ text: `Linha ${m.line + 1} · ${this.plugin.describeRule(m.linkId)}`, cls: "pte-review-rule" })
+      body.createEl("del", { text: m.before })
+      body.createSpan({ text: " → " })
+      body.createEl("ins", { text: m.after })
+    }
+
+    new Setting(contentEl)
+      .addButton(b => b
+        .setButtonText("Marcar todas")
+        .onClick(() => { list.querySelectorAll("input").forEach(i => { i.checked = true }); this.matches.forEach(m => chosen.add(m)) }))
+      .addButton(b => b
+        .setButtonText("Desmarcar todas")
+        .onClick(() => { list.querySelectorAll("input").forEach(i => { i.checked = false }); chosen.clear() }))
+      .addButton(b => b
+        .setButtonText("Aplicar selecionadas")
+        .setCta()
+        .onClick(() => {
+          const accepted = this.matches.filter(m => chosen.has(m))
+          this.close()
+          if (accepted.length) this.onAccept(accepted)
+        }))
+  }
+
+  onClose() { this.contentEl.empty() }
+}
+
+/** Confirmação da restauração de um snapshot: o que volta e o que fica de fora (e por quê) */
+class RestoreSnapshotModal extends Modal {
+  constructor(app: App, private snapshot: BulkSnapshot, private restorable: TFile[], private skipped: string[], private onConfirm: () => void) {
+    super(app)
+  }
+
+  onOpen() {
+    const { contentEl } = this
+    contentEl.empty()
+    contentEl.addClass("pte-review")
+    this.titleEl.setText(`Restaurar notas de ${new Date(this.snapshot.createdAt).toLocaleString()}`)
+
+    contentEl.createEl("p", {
+      text: this.restorable.length
+        ? `${this.restorable.length} nota(s) voltam ao conteúdo de antes da transformação em massa:`
+        : "Nenhuma nota pode ser restaurada.",
+    })
+    const list = contentEl.createDiv({ cls: "pte-review-list" })
+    for (const f of this.restorable) list.createDiv({ text: f.path })
+    if (this.skipped.length) {
+      contentEl.createEl("p", { text: `${this.skipped.length} nota(s) ficam como estão:`, cls: "pte-warn" })
+      const out = contentEl.createDiv({ cls: "pte-review-list" })
+      for (const p of this.skipped) out.createDiv({ text: p, cls: "pte-review-rule" })
+    }
+
+    new Setting(contentEl)
+      .addButton(b => b.setButtonText("Cancelar").onClick(() => this.close()))
+      .addButton(b => b
+        .setButtonText("Restaurar")
+        .setCta()
+        .setDisabled(!this.restorable.length)
+        .onClick(() => {
+          this.close()
+          this.onConfirm()
+        }))
+  }
+
+  onClose() { this.contentEl.empty() }
+}
+
+/** Transformação em massa: escolhe pasta e regras, simula (relatório) e depois aplica */
+class BulkTransformModal extends Modal {
+  private folder = ""
+  private chosen: Set<Id>
+  private results: BulkFileResult[] | null = null
+  private report: TFile | null = null
+  private applyBtn: ButtonComponent | null = null
+
+  constructor(app: App, private plugin: PasteTransform) {
+    super(app)
+    this.chosen = new Set(plugin.rules.filter(r => r.flavor === 'text').map(r => r.linkId))
+  }
+
+  onOpen() {
+    const { contentEl } = this
+    contentEl.empty()
+    this.titleEl.setText("Paste Transform — transformação em massa")
+
+    new Setting(contentEl)
+      .setName("Pasta")
+      .setDesc("Notas desta pasta e subpastas. Vazio = cofre inteiro.")
+      .addText(t => {
+        const list = contentEl.createEl("datalist", { attr: { id: "pte-bulk-folders" } })
+        for (const f of this.app.vault.getAllLoadedFiles()) {
+          if (f instanceof TFolder && f.path !== "/") list.createEl("option", { value: f.path })
+        }
+        t.inputEl.setAttribute("list", "pte-bulk-folders")
+        t.setPlaceholder("Work")
+        t.setValue(this.folder)
+        t.onChange(v => { this.folder = v; this.invalidate() })
+      })
+
+    contentEl.createEl("h4", { text: "Regras" })
+    const rules = this.plugin.rules.filter(r => r.flavor === 'text')
+    if (!rules.length) contentEl.createEl("p", { text: "Nenhuma regra de texto habilitada." })
+    for (const r of rules) {
+      const lbl = contentEl.createEl("label", { cls: "pte-review-row" })
+      const chk = lbl.createEl("input", { type: "checkbox" })
+      chk.checked = this.chosen.has(r.linkId)
+      chk.addEventListener("change", () => {
+        if (chk.checked) this.chosen.add(r.linkId); else this.chosen.delete(r.linkId)
+        this.invalidate()
+      })
+      lbl.appendText(this.plugin.describeRule(r.linkId))
+    }
+
+    const summary = contentEl.createEl("p", { cls: "setting-item-description" })
+    new Setting(contentEl)
+      .addButton(b => b
+        .setButtonText("Simular (dry run)")
+        .onClick(async () => {
+          const selected = rules.filter(r => this.chosen.has(r.linkId))
+          if (!selected.length) { new Notice("Escolha ao menos uma regra."); return }
+          summary.setText("Procurando…")
+          this.results = await this.plugin.bulkScan(this.folder, selected)
+          const total = this.results.reduce((n, r) => n + r.matches.length, 0)
+          if (!total) { summary.setText("Nenhuma ocorrência encontrada."); return }
+          this.report = await this.plugin.writeBulkReport(this.folder, selected, this.results)
+          summary.setText(`${total} substituição(ões) em ${this.results.length} nota(s). Relatório: ${this.report.path}`)
+          this.applyBtn?.setDisabled(false)
+          await this.app.workspace.getLeaf(true).openFile(this.report)
+        }))
+      .addButton(b => {
+        this.applyBtn = b
+        b.setButtonText("Aplicar")
+          .setCta()
+          .setDisabled(true)
+          .onClick(async () => {
+            if (!this.results || !this.report) return
+            const { applied, skipped } = await this.plugin.applyBulk(this.report, this.results)
+            new Notice(`${applied} nota(s) alterada(s)${skipped.length ? `, ${skipped.length} pulada(s) por terem mudado` : ""}. O snapshot está no relatório.`)
+            this.close()
+          })
+      })
+  }
+
+  /** Mudou pasta/regras: a simulação anterior deixa de valer */
+  private invalidate() {
+    this.results = null
+    this.report = null
+    this.applyBtn?.setDisabled(true)
+  }
+
+  onClose() { this.contentEl.empty() }
+}
+
+const MERGE_STATUS_LABELS: Record<MergeStatus, string> = { new: "novo", identical: "idêntico", conflict: "conflito" }
+
+const samePattern = (a: PatternItem, b: PatternItem) => a.text === b.text && (a.flags ?? "") === (b.flags ?? "")
+const sameReplacer = (a: ReplacerItem, b: ReplacerItem) =>
+  a.text === b.text && (a.type ?? 'text') === (b.type ?? 'text') &&
+  (a.fetchField ?? "") === (b.fetchField ?? "") && (a.fallback ?? "") === (b.fallback ?? "")
+/** Campos de uma ligação além do par padrão → replacer, com os defaults preenchidos */
+const linkFields = (L: LinkItem) => JSON.stringify([
+  L.enabled !== false, L.comment ?? "", !!L.continue, L.flavor ?? 'text', L.scope ?? null,
+  L.blockedContexts ?? null, L.tests ?? [], L.mustNotMatch ?? [],
+])
+
+/** Diferença das regras de um backup em relação às atuais: ligações só no backup, só nas atuais e alteradas */
+function describeBackupDiff(backup: unknown, current: PasteTransformSettings): string {
+  const texts = (v: unknown) => {
+    // Backup lido como veio do arquivo: listas ausentes contam como vazias, itens podem estar incompletos
+    const s = (v ?? {}) as { patterns?: unknown; replacers?: unknown; links?: unknown }
+    const list = <T>(x: unknown) => (Array.isArray(x) ? x : []) as Partial<T>[]
+    const p = new Map(list<PatternItem>(s.patterns).map(x => [x?.id, `${x?.text}/${x?.flags ?? ""}`]))
+    const r = new Map(list<ReplacerItem>(s.replacers).map(x => [x?.id, `${x?.text}`]))
+    const links = list<LinkItem>(s.links) as LinkItem[]
+    return new Map(links.map(L => [L.id, `${linkFields(L)}${p.get(L.patternId)}→${r.get(L.replacerId)}`]))
+  }
+  const a = texts(backup)
+  const b = texts(current)
+  const added = [...a.keys()].filter(id => !b.has(id)).length
+  const removed = [...b.keys()].filter(id => !a.has(id)).length
+  const changed = [...a.keys()].filter(id => b.has(id) && a.get(id) !== b.get(id)).length
+  if (!added && !removed && !changed) return "regras iguais às atuais"
+  return [added && `+${added} só no backup`, removed && `−${removed} só nas atuais`, changed && `✎${changed} diferente(s)`].filter(x => x).join(", ")
+}
+
+/** Importar/Restaurar com merge seletivo: escolhe o que entra e como resolver cada conflito */
+class ImportMergeModal extends Modal {
+  private patterns: MergeEntry<PatternItem>[]
+  private replacers: MergeEntry<ReplacerItem>[]
+  private linkChoices = new Map<Id, MergeChoice>()
+  private withOtherSettings = false
+  private linksHost!: HTMLElement
+  private previewHost!: HTMLElement
+
+  constructor(
+    app: App,
+    private plugin: PasteTransform,
+    private incoming: PasteTransformSettings,
+    /** Campos de topo presentes no arquivo: os outros ficam com o valor atual */
+    private present: string[],
+    private source: string,
+    private reason: 'import' | 'restore',
+    private onApplied: () => void,
+  ) {
+    super(app)
+    this.patterns = this.match(plugin.settings.patterns as PatternItem[], incoming.patterns as PatternItem[], samePattern)
+    this.replacers = this.match(plugin.settings.replacers as ReplacerItem[], incoming.replacers as ReplacerItem[], sameReplacer)
+  }
+
+  private match<T extends { id: Id }>(mine: T[], theirs: T[], same: (a: T, b: T) => boolean): MergeEntry<T>[] {
+    return theirs.map(t => {
+      const byId = mine.find(m => m.id === t.id)
+      if (byId) return { incoming: t, mine: byId, status: same(byId, t) ? 'identical' : 'conflict', choice: 'mine' }
+      const byText = mine.find(m => same(m, t))
+      if (byText) return { incoming: t, mine: byText, status: 'identical', choice: 'mine' }
+      return { incoming: t, status: 'new', choice: 'theirs' }
+    })
+  }
+
+  /** Aplica as escolhas sobre os itens atuais; `map` leva o id recebido ao id final */
+  private mergeItems<T extends { id: Id }>(mine: T[], entries: MergeEntry<T>[], prefix: string): { items: T[]; map: Map<Id, Id> } {
+    const items = mine.slice()
+    const map = new Map<Id, Id>()
+    for (const e of entries) {
+      if (e.blocked) continue
+      if (e.status === 'new') {
+        if (e.choice === 'theirs') { items.push(e.incoming); map.set(e.incoming.id, e.incoming.id) }
+        continue
+      }
+      const m = e.mine as T
+      if (e.status === 'identical' || e.choice === 'mine') map.set(e.incoming.id, m.id)
+      else if (e.choice === 'theirs') {
+        items[items.indexOf(m)] = Object.assign({}, e.incoming, { id: m.id })
+        map.set(e.incoming.id, m.id)
+      } else {
+        const copy = Object.assign({}, e.incoming, { id: uid(prefix) })
+        items.push(copy)
+        map.set(e.incoming.id, copy.id)
+      }
+    }
+    return { items, map }
+  }
+
+  /** Ligações recebidas, com padrão/replacer já traduzidos pelas escolhas das colunas */
+  private linkEntries(pMap: Map<Id, Id>, rMap: Map<Id, Id>): MergeEntry<LinkItem>[] {
+    const mine = this.plugin.settings.links || []
+    return (this.incoming.links || []).map(L => {
+      const patternId = pMap.get(L.patternId)
+      const replacerId = rMap.get(L.replacerId)
+      const incoming = Object.assign({}, L, { patternId: patternId ?? L.patternId, replacerId: replacerId ?? L.replacerId })
+      if (!patternId || !replacerId) return { incoming, status: 'new', choice: 'skip', blocked: true }
+      const mineL = mine.find(m => m.id === L.id) ?? mine.find(m => m.patternId === patternId && m.replacerId === replacerId)
+      const status: MergeStatus = !mineL ? 'new'
+        : mineL.patternId === patternId && mineL.replacerId === replacerId && linkFields(mineL) === linkFields(incoming) ? 'identical' : 'conflict'
+      const choice = this.linkChoices.get(L.id) ?? (status === 'new' ? 'theirs' : 'mine')
+      return { incoming, mine: mineL, status, choice }
+    })
+  }
+
+  private result() {
+    const settings = this.plugin.settings
+    const p = this.mergeItems(settings.patterns as PatternItem[], this.patterns, 'p')
+    const r = this.mergeItems(settings.replacers as ReplacerItem[], this.replacers, 'r')
+    const entries = this.linkEntries(p.map, r.map)
+    const l = this.mergeItems(settings.links || [], entries, 'link')
+    return { patterns: p.items, replacers: r.items, links: l.items, linkMap: l.map, entries }
+  }
+
+  onOpen() {
+    const { contentEl } = this
+    contentEl.empty()
+    this.titleEl.setText(`Paste Transform — importar ${this.source}`)
+    contentEl.createEl("p", {
+      text: "Itens comparados por id e por conteúdo. Novos: marque os que entram. Conflitos: manter o meu, usar o recebido (substitui no lugar) ou manter os dois.",
+      cls: "setting-item-description",
+    })
+    this.renderItems("Padrões", this.patterns, x => `/${x.text}/${x.flags ?? ""}`)
+    this.renderItems("Replacers", this.replacers, x => `"${x.text}"${x.type && x.type !== 'text' ? ` (${x.type})` : ""}`)
+    contentEl.createEl("h4", { text: "Ligações" })
+    this.linksHost = contentEl.createDiv()
+    new Setting(contentEl)
+      .setName("Demais configurações")
+      .setDesc("Também substituir regras de saída, perfis, notas de regras e opções pelas do arquivo (as que ele não traz ficam como estão).")
+      .addToggle(t => t.setValue(this.withOtherSettings).onChange(v => { this.withOtherSettings = v }))
+    contentEl.createEl("h4", { text: "Resultado (ordem de prioridade)" })
+    this.previewHost = contentEl.createDiv({ cls: "pte-merge-preview" })
+    new Setting(contentEl)
+      .addButton(b => b.setButtonText("Cancelar").onClick(() => this.close()))
+      .addButton(b => b.setButtonText("Aplicar").setCta().onClick(() => void this.apply()))
+    this.refresh()
+  }
+
+  private renderItems<T extends { id: Id }>(title: string, entries: MergeEntry<T>[], label: (x: T) => string) {
+    const { contentEl } = this
+    contentEl.createEl("h4", { text: title })
+    this.renderEntries(contentEl, entries, label, () => this.refresh())
+  }
+
+  private renderEntries<T extends { id: Id }>(host: HTMLElement, entries: MergeEntry<T>[], label: (x: T) => string, onChange: (e: MergeEntry<T>) => void) {
+    const identical = entries.filter(e => e.status === 'identical').length
+    if (!entries.length) host.createEl("p", { text: "Nada recebido.", cls: "setting-item-description" })
+    else if (identical) host.createEl("p", { text: `${identical} idêntico(s) aos atuais.`, cls: "setting-item-description" })
+    for (const e of entries) {
+      if (e.status === 'identical') continue
+      const row = new Setting(host).setName(label(e.incoming))
+      if (e.blocked) {
+        row.setDesc("não entra: o padrão ou o replacer desta ligação não foi importado")
+        continue
+      }
+      if (e.status === 'new') {
+        row.setDesc(MERGE_STATUS_LABELS.new)
+        row.addToggle(t => t.setValue(e.choice === 'theirs').onChange(v => { e.choice = v ? 'theirs' : 'skip'; onChange(e) }))
+        continue
+      }
+      row.setDesc(`${MERGE_STATUS_LABELS.conflict} — atual: ${label(e.mine as T)}`)
+      row.addDropdown(d => d
+        .addOption('mine', "Manter o meu")
+        .addOption('theirs', "Usar o recebido")
+        .addOption('both', "Manter os dois")
+        .setValue(e.choice)
+        .onChange(v => { e.choice = v as MergeChoice; onChange(e) }))
+    }
+  }
+
+  /** Ligações dependem das escolhas de padrões e replacers: redesenha a lista e a prévia */
+  private refresh() {
+    const { patterns, replacers, links, entries } = this.result()
+    const pText = new Map(patterns.map(p => [p.id, `/${p.text}/${p.flags ?? ""}`]))
+    const rText = new Map(replacers.map(r => [r.id, `"${r.text}"`]))
+    const linkLabel = (L: LinkItem) => `${pText.get(L.patternId) ?? "?"} → ${rText.get(L.replacerId) ?? "?"}`
+    this.linksHost.empty()
+    this.renderEntries(this.linksHost, entries, linkLabel, e => {
+      this.linkChoices.set(e.incoming.id, e.choice)
+      this.refresh()
+    })
+
+    // Prévia: ＋ ligação nova, ✎ ligação (ou seu padrão/replacer) alterada
+    const settings = this.plugin.settings
+    const curP = new Map((settings.patterns as PatternItem[]).map(p => [p.id, `/${p.text}/${p.flags ?? ""}`]))
+    const curR = new Map((settings.replacers as ReplacerItem[]).map(r => [r.id, `"${r.text}"`]))
+    const current = new Map((settings.links || []).map(L => [L.id, `${linkFields(L)}${curP.get(L.patternId) ?? "?"} → ${curR.get(L.replacerId) ?? "?"}`]))
+    this.previewHost.empty()
+    const list = this.previewHost.createEl("ol", { cls: "pte-lint-list" })
+    for (const L of links) {
+      const before = current.get(L.id)
+      const mark = before === undefined ? " ＋" : before !== `${linkFields(L)}${linkLabel(L)}` ? " ✎" : ""
+      list.createEl("li", { text: `${linkLabel(L)}${L.enabled === false ? " (desabilitada)" : ""}${mark}` })
     }
+  }
+
+  private async apply() {
+    const { patterns, replacers, links, linkMap } = this.result()
+    const plugin = this.plugin
+    try { await plugin.backupNow(this.reason) }
+    catch (e) {
+      console.error(e)
+      new Notice(`Backup automático falhou (${errorMessage(e)}); nada foi importado.`)
+      return
+    }
+    if (this.withOtherSettings) {
+      // Regras já vieram pela mesclagem; uso, cache e histórico são dados locais: nunca vêm de fora
+      const rest: Partial<PasteTransformSettings> = Object.assign({}, this.incoming)
+      for (const k of ['patterns', 'replacers', 'links', 'usage', 'fetchCache', 'history'] as const) delete rest[k]
+      for (const k of Object.keys(rest) as (keyof PasteTransformSettings)[]) {
+        if (!this.present.includes(k)) delete rest[k]
+      }
+      // Perfis recebidos apontam para os ids do arquivo: passam pelo mesmo mapa das ligações
+      // (ligações puladas saem do perfil; as mantidas em dobro ou já existentes levam o id final)
+      if (rest.profiles) {
+        rest.profiles = rest.profiles.map(p => Object.assign({}, p, {
+          enabledLinks: p.enabledLinks.map(id => linkMap.get(id)).filter((id): id is Id => !!id),
+        }))
+      }
+      Object.assign(plugin.settings, rest)
+    }
+    const known = new Set((plugin.settings.links || []).map(L => L.id))
+    plugin.settings.patterns = patterns
+    plugin.settings.replacers = replacers
+    plugin.settings.links = links
+    plugin.seedUsage(links.filter(L => !known.has(L.id)).map(L => L.id))
+    await plugin.saveSettings()
+    plugin.compileRules()
+    plugin.syncProfileCommands()
+    plugin.updateStatusEl()
+    this.close()
+    this.onApplied()
+  }
+}
+
+class PasteTransformSettingsTab extends PluginSettingTab {
+  plugin: PasteTransform
+  /** Campos de escopo salvam e recompilam só quando a digitação para */
+  private scopeTimer = 0
+
+  constructor(app: App, plugin: PasteTransform) { super(app, plugin); this.plugin = plugin }
+
+  display(): void {
+    const { containerEl } = this
+    containerEl.empty()
 
-    const BACKUP_FOLDER = "PasteTransform Backups"
+    ensureStyles()
 
     // Header
     const root = containerEl.createDiv({ cls: "pte-root" })
@@ -318,33 +3335,26 @@ class PasteTransformSettingsTab extends PluginSettingTab {
       text: "Clique em 🔗 para selecionar um lado e depois no outro item para ligar. Botão no meio da linha: ✕ (topo) remove, ✓ (baixo) habilita/desabilita.",
     })
 
-    /* ===== Importar / Exportar ===== */
-    const fmt = (d: Date) => {
-      const pad = (n: number) => `${n}`.padStart(2, '0')
-      return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}_${pad(d.getHours())}-${pad(d.getMinutes())}-${pad(d.getSeconds())}`
-    }
-    const buildPayload = () => {
-      const now = new Date()
-      return {
-        meta: {
-          savedAt: now.toISOString(),
-          savedAtLocal: now.toString(),
-          pluginVersion: (this.plugin as any).manifest?.version ?? 'unknown',
-          settingsFormatVersion: this.plugin.settings.settingsFormatVersion,
-        },
-        settings: this.plugin.settings,
-      }
+    if (this.plugin.settingsProblem) {
+      const banner = root.createDiv({ cls: "pte-err pte-banner" })
+      banner.createEl("strong", { text: "data.json não foi carregado e nada será salvo até recarregar o plugin." })
+      banner.createDiv({ text: this.plugin.settingsProblem })
+      banner.createDiv({ text: "Atualize o plugin ou corrija o arquivo, depois recarregue. As regras abaixo são os padrões." })
     }
 
+    // Resumo do lint; preenchido por renderLint junto com as colunas
+    const lintHost = root.createDiv({ cls: "pte-lint" })
+
+    /* ===== Importar / Exportar ===== */
     new Setting(root)
       .setName("Dados")
       .setDesc("Importar/Exportar todas as regras e estado (com data e hora).")
       .addButton(b => b
         .setButtonText("Exportar")
         .onClick(() => {
-          const payload = buildPayload()
+          const payload = this.plugin.buildPayload()
           const blob = new Blob([JSON.stringify(payload, null, 2)], { type: "application/json" })
-          const stamp = fmt(new Date())
+          const stamp = fileStamp(new Date())
           const a = document.createElement("a")
           a.href = URL.createObjectURL(blob)
           a.download = `paste-transform-export-${stamp}.json`
@@ -365,16 +3375,13 @@ class PasteTransformSettingsTab extends PluginSettingTab {
             const parsed = JSON.parse(text)
             const incoming = parsed?.settings ?? parsed
             if (!incoming || typeof incoming !== "object") throw new Error("JSON inválido.")
-            this.plugin.settings = Object.assign({}, this.plugin.settings, incoming)
-              ; (this.plugin as any).migrateIfNeeded(this.plugin.settings)
-              ; (this.plugin as any).normalizeDefaultsIfEmpty(this.plugin.settings)
-            await this.plugin.saveSettings()
-            this.plugin.compileRules()
-            this.display()
-            new Notice(`Importado com sucesso (${file.name}).`)
-          } catch (e: any) {
+            new ImportMergeModal(this.app, this.plugin, this.plugin.prepareIncoming(incoming), Object.keys(incoming), file.name, 'import', () => {
+              this.display()
+              new Notice(`Importado com sucesso (${file.name}).`)
+            }).open()
+          } catch (e) {
             console.error(e)
-            new Notice(`Falha ao importar: ${e?.message ?? e}`)
+            new Notice(`Falha ao importar: ${errorMessage(e)}`)
           }
         })
         return b.setButtonText("Importar").onClick(() => input.click())
@@ -387,23 +3394,79 @@ class PasteTransformSettingsTab extends PluginSettingTab {
     // Linha de ações: Backup agora (lista recarrega automaticamente)
     const actions = new Setting(backupsSection)
       .setName("Ações de backup")
-      .setDesc("Salva backup no seu cofre e atualiza a listagem automaticamente.")
+      .setDesc("Salva backup no seu cofre e atualiza a listagem automaticamente. Backups automáticos são feitos antes de importar, restaurar e excluir regras.")
 
     actions.addButton(b => b
       .setButtonText("Backup agora")
       .onClick(async () => {
         try {
-          try { await this.app.vault.createFolder(BACKUP_FOLDER) } catch (_) { /* já existe */ }
-          const stamp = fmt(new Date())
-          const path = `${BACKUP_FOLDER}/paste-transform-backup-${stamp}.json`
-          const payload = buildPayload()
-          const content = JSON.stringify(payload, null, 2)
-          await this.app.vault.create(path, content)
-          new Notice(`Backup salvo em: ${path}`)
-          await loadBackupsList() // recarrega automaticamente após backup
-        } catch (e: any) {
+          const file = await this.plugin.backupNow('manual')
+          if (!file) { new Notice("Nada mudou desde o último backup."); return }
+          new Notice(`Backup salvo em: ${file.path}`)
+          await loadBackupsList() // recarrega automaticamente após backup
+        } catch (e) {
+          console.error(e)
+          new Notice(`Falha ao salvar backup: ${errorMessage(e)}`)
+        }
+      }))
+
+    new Setting(backupsSection)
+      .setName("Pasta de backups")
+      .addText(inp => {
+        inp.setPlaceholder(DEFAULT_SETTINGS.backupFolder)
+        inp.setValue(this.plugin.settings.backupFolder)
+        inp.inputEl.addEventListener("change", async () => {
+          this.plugin.settings.backupFolder = inp.getValue().trim() || DEFAULT_SETTINGS.backupFolder
+          await this.plugin.saveSettings()
+          await loadBackupsList()
+        })
+      })
+    new Setting(backupsSection)
+      .setName("Backup diário")
+      .setDesc("Um backup por dia, ao abrir o Obsidian (pulado se nada mudou).")
+      .addToggle(t => t.setValue(this.plugin.settings.dailyBackup).onChange(async v => {
+        this.plugin.settings.dailyBackup = v
+        await this.plugin.saveSettings()
+      }))
+    const numberInput = (inp: TextComponent, value: number, placeholder: string, set: (n: number) => void) => {
+      inp.inputEl.type = "number"
+      inp.setPlaceholder(placeholder)
+      inp.setValue(`${value}`)
+      inp.onChange(async v => {
+        const n = Number(v)
+        if (!Number.isInteger(n) || n < 0) return
+        set(n)
+        await this.plugin.saveSettings()
+      })
+    }
+    const retention = new Setting(backupsSection)
+      .setName("Retenção")
+      .addDropdown(d => d
+        .addOption('last', "Manter os últimos N")
+        .addOption('calendar', "Um por dia e por semana")
+        .setValue(this.plugin.settings.backupRetention)
+        .onChange(async v => {
+          this.plugin.settings.backupRetention = v as BackupRetention
+          await this.plugin.saveSettings()
+          this.display()
+        }))
+    if (this.plugin.settings.backupRetention === 'last') {
+      retention.setDesc("Quantos backups manter (0 = todos). O mais recente nunca é removido.")
+      retention.addText(inp => numberInput(inp, this.plugin.settings.backupKeepLast, "N", n => { this.plugin.settings.backupKeepLast = n }))
+    } else {
+      retention.setDesc("Dias e semanas: mantém o backup mais recente de cada um dos últimos dias e semanas que têm backup.")
+      retention.addText(inp => numberInput(inp, this.plugin.settings.backupKeepDaily, "dias", n => { this.plugin.settings.backupKeepDaily = n }))
+      retention.addText(inp => numberInput(inp, this.plugin.settings.backupKeepWeekly, "semanas", n => { this.plugin.settings.backupKeepWeekly = n }))
+    }
+    retention.addButton(b => b
+      .setButtonText("Aplicar agora")
+      .onClick(async () => {
+        try {
+          await this.plugin.pruneBackups()
+          await loadBackupsList()
+        } catch (e) {
           console.error(e)
-          new Notice(`Falha ao salvar backup: ${e?.message ?? e}`)
+          new Notice(`Falha ao aplicar a retenção: ${errorMessage(e)}`)
         }
       }))
 
@@ -441,9 +3504,6 @@ class PasteTransformSettingsTab extends PluginSettingTab {
         const value = restoreDropdown.getValue?.() ?? ""
         if (!value) { new Notice("Escolha um backup na lista."); return }
 
-        const proceed = confirm("Restaurar este backup substituirá as configurações atuais. Deseja continuar?")
-        if (!proceed) return
-
         try {
           const file = this.app.vault.getAbstractFileByPath(value) as TFile | null
           if (!file) throw new Error("Arquivo não encontrado.")
@@ -452,16 +3512,13 @@ class PasteTransformSettingsTab extends PluginSettingTab {
           const incoming = parsed?.settings ?? parsed
           if (!incoming || typeof incoming !== "object") throw new Error("Backup inválido.")
 
-          this.plugin.settings = Object.assign({}, this.plugin.settings, incoming)
-            ; (this.plugin as any).migrateIfNeeded(this.plugin.settings)
-            ; (this.plugin as any).normalizeDefaultsIfEmpty(this.plugin.settings)
-          await this.plugin.saveSettings()
-          this.plugin.compileRules()
-          this.display() // recarrega UI
-          new Notice("Backup restaurado com sucesso.")
-        } catch (e: any) {
+          new ImportMergeModal(this.app, this.plugin, this.plugin.prepareIncoming(incoming), Object.keys(incoming), file.basename, 'restore', () => {
+            this.display() // recarrega UI
+            new Notice("Backup restaurado com sucesso.")
+          }).open()
+        } catch (e) {
           console.error(e)
-          new Notice(`Falha ao restaurar: ${e?.message ?? e}`)
+          new Notice(`Falha ao restaurar: ${errorMessage(e)}`)
         }
       }))
 
@@ -479,28 +3536,134 @@ class PasteTransformSettingsTab extends PluginSettingTab {
           const file = this.app.vault.getAbstractFileByPath(value) as TFile | null
           if (!file) throw new Error("Arquivo não encontrado.")
 
-          // Preferir lixeira do sistema, com fallback
-          if (typeof (this.app.vault as any).trash === 'function') {
-            await (this.app.vault as any).trash(file, true) // true = system trash
-          } else if (typeof (this.app.vault as any).delete === 'function') {
-            await (this.app.vault as any).delete(file)
-          } else if ((this.app.vault.adapter as any)?.remove) {
-            await (this.app.vault.adapter as any).remove(file.path)
-          } else {
-            throw new Error("API de exclusão indisponível.")
-          }
+          await this.plugin.trashFile(file)
 
           new Notice("Backup removido.")
           await loadBackupsList() // atualiza dropdown + memo
           if (restoreDropdown?.setValue) restoreDropdown.setValue("")
-        } catch (e: any) {
+        } catch (e) {
           console.error(e)
-          new Notice(`Falha ao remover: ${e?.message ?? e}`)
+          new Notice(`Falha ao remover: ${errorMessage(e)}`)
         }
       }))
 
+    // ===== Perfis =====
+    const profilesSection = root.createDiv({ cls: "pte-profiles-sec" })
+    profilesSection.createEl("h4", { text: "Perfis" })
+    const profiles = this.plugin.settings.profiles
+    const current = this.plugin.activeProfile()
+    const afterProfilesChange = async (rebuildCommands: boolean) => {
+      await this.plugin.saveSettings()
+      if (rebuildCommands) this.plugin.syncProfileCommands()
+      this.plugin.compileRules()
+      this.plugin.updateStatusEl()
+      this.display()
+    }
+    new Setting(profilesSection)
+      .setName("Perfil em uso")
+      .setDesc("Cada perfil tem seu próprio conjunto de ligações habilitadas; os checkboxes e o ✓ das ligações abaixo editam o perfil em uso.")
+      .addDropdown(d => {
+        d.addOption("", "Sem perfil")
+        for (const p of profiles) d.addOption(p.id, p.name)
+        d.setValue(current?.id ?? "")
+        d.onChange(async v => {
+          await this.plugin.useProfile(v || null)
+          this.display()
+        })
+      })
+      .addButton(b => b
+        .setButtonText("Novo perfil")
+        .setTooltip("Cria um perfil com as ligações habilitadas agora")
+        .onClick(async () => {
+          const links = this.plugin.settings.links || []
+          profiles.push({
+            id: uid('profile'),
+            name: `Perfil ${profiles.length + 1}`,
+            enabledLinks: links.filter(L => this.plugin.isLinkEnabled(L)).map(L => L.id),
+          })
+          await afterProfilesChange(true)
+        }))
+    new Setting(profilesSection)
+      .setName("Escolher pela pasta da nota")
+      .setDesc("Ao abrir uma nota, usa o primeiro perfil cuja pasta/glob casa com o caminho; sem correspondência, vale o perfil escolhido acima.")
+      .addToggle(t => {
+        t.setValue(this.plugin.settings.autoProfileByFolder)
+        t.onChange(async v => {
+          this.plugin.settings.autoProfileByFolder = v
+          await afterProfilesChange(false)
+        })
+      })
+    for (const p of profiles) {
+      new Setting(profilesSection)
+        .setName(`${current?.id === p.id ? "✓ " : ""}${p.enabledLinks.length} ligação(ões)`)
+        .addText(inp => {
+          inp.setPlaceholder("Nome")
+          inp.setValue(p.name)
+          inp.inputEl.addEventListener("change", async () => {
+            const name = inp.getValue().trim()
+            if (!name || name === p.name) return
+            p.name = name
+            await afterProfilesChange(true)
+          })
+        })
+        .addText(inp => {
+          inp.setPlaceholder("Work/**")
+          inp.setValue(p.folder ?? "")
+          inp.onChange(async v => {
+            if (v.trim()) p.folder = v; else delete p.folder
+            await this.plugin.saveSettings()
+          })
+        })
+        .addExtraButton(b => b.setIcon("trash").setTooltip("Remover perfil").onClick(async () => {
+          if (!confirm(`Remover o perfil "${p.name}"?`)) return
+          this.plugin.settings.profiles = profiles.filter(x => x.id !== p.id)
+          if (this.plugin.settings.activeProfileId === p.id) this.plugin.settings.activeProfileId = null
+          await afterProfilesChange(true)
+        }))
+    }
+
+    // ===== Regras em notas =====
+    const openNoteAt = async (path: string, line: number) => {
+      const file = this.app.vault.getAbstractFileByPath(path)
+      if (!(file instanceof TFile)) { new Notice(`Nota não encontrada: ${path}`); return }
+      await this.app.workspace.getLeaf(false).openFile(file, { eState: { line: Math.max(0, line - 1) } })
+    }
+    const notesSection = root.createDiv({ cls: "pte-notes-sec" })
+    notesSection.createEl("h4", { text: "Regras em notas" })
+    const noteCount = this.plugin.noteRules.length
+    new Setting(notesSection)
+      .setName("Notas de regras")
+      .setDesc(`Um caminho por linha. Blocos \`\`\`${RULES_BLOCK} com YAML (pattern, replacer, flags, comment…) são lidos e recarregados quando a nota muda; as regras entram depois das ligações abaixo. ${noteCount} regra(s) carregada(s).`)
+      .addTextArea(ta => {
+        ta.setPlaceholder("Regras/Paste Transform.md")
+        ta.setValue(this.plugin.settings.ruleNotes.join("\n"))
+        ta.inputEl.addEventListener("change", async () => {
+          this.plugin.settings.ruleNotes = ta.getValue().split("\n").map(x => x.trim()).filter(x => x)
+          await this.plugin.saveSettings()
+          await this.plugin.loadRuleNotes()
+          this.display()
+        })
+      })
+      .addButton(b => b
+        .setButtonText("Recarregar")
+        .onClick(async () => {
+          await this.plugin.loadRuleNotes()
+          this.display()
+        }))
+    if (this.plugin.noteRuleErrors.length) {
+      const list = notesSection.createEl("ul", { cls: "pte-lint-list" })
+      for (const er of this.plugin.noteRuleErrors) {
+        const li = list.createEl("li", { cls: "pte-err pte-clickable" })
+        li.setText(`${er.path}${er.line ? `:${er.line}` : ""} — ${er.message}`)
+        li.addEventListener("click", () => void openNoteAt(er.path, er.line))
+      }
+    }
+
     // ===== Stage + layers (UI principal) =====
     const stage = root.createDiv({ cls: "pte-stage" })
+    const linksHost = root.createDiv()
+    const testsHost = root.createDiv({ cls: "pte-tests" })
+    const outboundHost = root.createDiv({ cls: "pte-outbound" })
     const layer = stage.createDiv({ cls: "pte-layer" })
     const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg")
     svg.classList.add("pte-svg")
@@ -508,6 +3671,7 @@ class PasteTransformSettingsTab extends PluginSettingTab {
     const xwrap = stage.createDiv({ cls: "pte-xwrap" })
 
     let pending: null | { side: 'left' | 'right'; id: Id } = null
+    let lint: LintIssue[] = []
 
     const buildColumn = (side: 'left' | 'right', title: string) => {
       const wrap = stage.createDiv({ cls: "pte-col" })
@@ -546,11 +3710,92 @@ class PasteTransformSettingsTab extends PluginSettingTab {
       return { patterns, replacers, links }
     }
 
+    const describeLink = (linkId: Id) => {
+      const { patterns, replacers, links } = getArrays()
+      const idx = links.findIndex(L => L.id === linkId)
+      const L = links[idx]
+      if (!L) return this.plugin.describeRule(linkId)
+      const p = patterns.find(x => x.id === L.patternId)
+      const r = replacers.find(x => x.id === L.replacerId)?.text ?? "?"
+      return `Regra #${idx + 1}: /${p?.text ?? "?"}/${p?.flags ?? ""} → "${r}"${L.continue ? " ⤵" : ""}`
+    }
+
+    const renderLintIssue = (parent: HTMLElement, it: LintIssue) => {
+      const div = parent.createDiv({ cls: it.kind === 'regex' ? "pte-err" : "pte-warn" })
+      div.createSpan({ text: LINT_LABELS[it.kind], cls: `pte-badge${it.kind === 'regex' ? " error" : ""}` })
+      div.appendText(` ${it.message}`)
+    }
+    const renderLint = () => {
+      lint = this.plugin.lintRules()
+      lintHost.empty()
+      new Setting(lintHost)
+        .setName("Verificação das regras")
+        .setDesc(lint.length ? `${lint.length} problema(s): regras que nunca disparam ou não fazem o esperado.` : "Nenhum problema encontrado.")
+        .addButton(b => b.setButtonText("Verificar de novo").onClick(() => render()))
+      if (!lint.length) return
+      const list = lintHost.createEl("ul", { cls: "pte-lint-list" })
+      const { patterns, replacers } = getArrays()
+      for (const it of lint) {
+        const li = list.createEl("li")
+        li.createSpan({ text: LINT_LABELS[it.kind], cls: `pte-badge${it.kind === 'regex' ? " error" : ""}` })
+        const target = it.linkId ? describeLink(it.linkId)
+          : it.patternId ? `Padrão /${patterns.find(p => p.id === it.patternId)?.text ?? "?"}/`
+            : `Replacer "${replacers.find(r => r.id === it.replacerId)?.text ?? "?"}"`
+        li.appendText(` ${target} — ${it.message}`)
+        if (it.linkId) {
+          li.addClass("pte-clickable")
+          li.addEventListener("click", () => {
+            linksHost.querySelector(`[data-link-id="${it.linkId}"]`)?.scrollIntoView({ behavior: "smooth", block: "center" })
+          })
+        }
+      }
+    }
+
     const saveDebounced = debounce(async () => {
       await this.plugin.saveSettings()
       this.plugin.compileRules()
     }, 250)
 
+    // Drag-and-drop: reordena itens das colunas e a prioridade das ligações
+    let dragging: null | { kind: 'left' | 'right' | 'links'; id: Id } = null
+    const clearDrop = () => stage.ownerDocument.querySelectorAll(".pte-drop-before, .pte-drop-after")
+      .forEach(n => n.classList.remove("pte-drop-before", "pte-drop-after"))
+    const makeSortable = (kind: 'left' | 'right' | 'links', el: HTMLElement, handle: HTMLElement, id: Id, arr: () => { id: Id }[]) => {
+      handle.draggable = true
+      handle.addEventListener("dragstart", (e) => {
+        dragging = { kind, id }
+        e.dataTransfer?.setData("text/plain", id)
+        if (e.dataTransfer) e.dataTransfer.effectAllowed = "move"
+        el.classList.add("pte-dragging")
+      })
+      handle.addEventListener("dragend", () => {
+        dragging = null
+        el.classList.remove("pte-dragging")
+        clearDrop()
+      })
+      el.addEventListener("dragover", (e) => {
+        if (!dragging || dragging.kind !== kind || dragging.id === id) return
+        e.preventDefault()
+        const r = el.getBoundingClientRect()
+        const after = e.clientY > r.top + r.height / 2
+        el.classList.toggle("pte-drop-before", !after)
+        el.classList.toggle("pte-drop-after", after)
+      })
+      el.addEventListener("dragleave", () => el.classList.remove("pte-drop-before", "pte-drop-after"))
+      el.addEventListener("drop", async (e) => {
+        if (!dragging || dragging.kind !== kind) return
+        e.preventDefault()
+        const after = el.classList.contains("pte-drop-after")
+        const fromId = dragging.id
+        dragging = null
+        clearDrop()
+        if (!moveById(arr(), fromId, id, after)) return
+        await this.plugin.saveSettings()
+        this.plugin.compileRules()
+        render()
+      })
+    }
+
     const renderColumn = (side: 'left' | 'right') => {
       const { patterns, replacers } = getArrays()
       const arr = side === 'left' ? patterns : replacers
@@ -563,29 +3808,92 @@ class PasteTransformSettingsTab extends PluginSettingTab {
         const li = view.list.createEl("li", { cls: "pte-item" })
         li.setAttribute("data-id", item.id)
 
-        const handle = li.createEl("button", { text: "↕️", title: "Arrastar (disabled)", cls: "pte-btn ghost" })
+        const handle = li.createEl("button", { text: "↕️", title: "Arrastar para reordenar", cls: "pte-btn ghost pte-handle" })
         const text = li.createEl("span", { text: item.text, title: item.text, cls: "pte-txt" })
+        if (side === 'left') {
+          const pattern = item as PatternItem
+          li.addClass("pte-item-pattern")
+          const flagsInp = li.createEl("input", {
+            type: "text",
+            value: pattern.flags ?? "",
+            placeholder: "flags",
+            cls: "pte-inp pte-flags",
+            attr: { title: `Flags do regex (${PATTERN_FLAGS.split("").join(", ")}); g é sempre aplicada`, size: "4" },
+          })
+          flagsInp.addEventListener("change", async () => {
+            try {
+              pattern.flags = normalizeFlags(flagsInp.value)
+              flagsInp.value = pattern.flags
+              flagsInp.removeClass("pte-invalid")
+              await this.plugin.saveSettings()
+              this.plugin.compileRules()
+              renderLinksPanel()
+            } catch (e) {
+              flagsInp.addClass("pte-invalid")
+              new Notice(errorMessage(e))
+            }
+          })
+        } else {
+          const replacer = item as ReplacerItem
+          li.addClass("pte-item-replacer")
+          if (replacer.type === 'script') {
+            text.setText(`ƒ ${replacer.text.split("\n")[0]}`)
+            text.addClass("pte-script")
+          }
+          const type = replacer.type ?? 'text'
+          const typeBtn = li.createEl("button", {
+            text: REPLACER_TYPE_UI[type].icon,
+            cls: "pte-btn",
+            attr: { title: `${REPLACER_TYPE_UI[type].label} — clique para trocar o tipo` },
+          })
+          typeBtn.addEventListener("click", async () => {
+            const order: ReplacerType[] = ['text', 'script', 'fetch']
+            const next = order[(order.indexOf(type) + 1) % order.length]
+            if (next === 'text') delete replacer.type
+            else replacer.type = next
+            await this.plugin.saveSettings()
+            this.plugin.compileRules()
+            render()
+          })
+        }
         const linkBtn = li.createEl("button", { text: "🔗", title: "Criar ligação com item da outra coluna", cls: "pte-btn" })
         const editBtn = li.createEl("button", { text: "✏️", title: "Editar", cls: "pte-btn" })
         const delBtn = li.createEl("button", { text: "🗑️", title: "Excluir", cls: "pte-btn danger" })
 
-        // editar inline
+        // editar inline (scripts ganham um editor de várias linhas, com checagem de sintaxe)
         const activateEdit = () => {
           if (li.classList.contains("editing")) return
           li.classList.add("editing")
-          const input = li.createEl("input", { type: "text", value: item.text, cls: "pte-inp" })
+          const isScript = side === 'right' && (item as ReplacerItem).type === 'script'
+          const input = isScript
+            ? li.createEl("textarea", { text: item.text, cls: "pte-inp pte-script-editor", attr: { rows: "8", spellcheck: "false" } })
+            : li.createEl("input", { type: "text", value: item.text, cls: "pte-inp" })
+          const syntax = isScript ? li.createDiv({ cls: "pte-err" }) : null
+          const check = () => {
+            if (!syntax) return
+            try { compileScript(input.value, this.plugin.settings.scriptTimeoutMs); syntax.setText("") }
+            catch (e) { syntax.setText(`${e instanceof Error ? e.name : "Erro"}: ${errorMessage(e)}`) }
+          }
           text.replaceWith(input)
           input.focus(); input.select()
+          check()
+          let done = false
           const commit = async () => {
+            if (done) return
             const nv = (input.value || "").trim()
             if (!nv) { cancel(); return }
+            done = true
             ; (item as any).text = nv
             await this.plugin.saveSettings()
             this.plugin.compileRules()
             render()
           }
-          const cancel = () => { input.replaceWith(text); li.classList.remove("editing") }
-          input.addEventListener("keydown", (e) => { if (e.key === "Enter") commit(); else if (e.key === "Escape") cancel() })
+          const cancel = () => { done = true; syntax?.remove(); input.replaceWith(text); li.classList.remove("editing") }
+          input.addEventListener("input", check)
+          input.addEventListener("keydown", (e: KeyboardEvent) => {
+            if (e.key === "Enter" && (!isScript || e.ctrlKey || e.metaKey)) { e.preventDefault(); commit() }
+            else if (e.key === "Escape") cancel()
+          })
           input.addEventListener("blur", commit)
         }
         editBtn.addEventListener("click", activateEdit)
@@ -593,16 +3901,26 @@ class PasteTransformSettingsTab extends PluginSettingTab {
 
         // excluir item (e links)
         delBtn.addEventListener("click", async () => {
+          // Excluir um item exclui as ligações dele: backup automático antes
+          const cascades = (this.plugin.settings.links || []).some(L => (side === 'left' ? L.patternId : L.replacerId) === item.id)
+          if (cascades) {
+            try { await this.plugin.backupNow('delete') }
+            catch (e) {
+              console.error(e)
+              new Notice(`Backup automático falhou (${errorMessage(e)}); nada foi excluído.`)
+              return
+            }
+          }
           if (side === 'left') {
             const ps = this.plugin.settings.patterns as PatternItem[]
             const i = ps.findIndex(p => p.id === item.id)
             if (i >= 0) ps.splice(i, 1)
-            this.plugin.settings.links = (this.plugin.settings.links || []).filter(L => L.patternId !== item.id)
+            this.plugin.removeLinks(L => L.patternId === item.id)
           } else {
             const rs = this.plugin.settings.replacers as ReplacerItem[]
             const i = rs.findIndex(r => r.id === item.id)
             if (i >= 0) rs.splice(i, 1)
-            this.plugin.settings.links = (this.plugin.settings.links || []).filter(L => L.replacerId !== item.id)
+            this.plugin.removeLinks(L => L.replacerId === item.id)
           }
           await this.plugin.saveSettings()
           this.plugin.compileRules()
@@ -628,7 +3946,10 @@ class PasteTransformSettingsTab extends PluginSettingTab {
 
             const links = this.plugin.settings.links as LinkItem[]
             if (!links.some(L => L.patternId === pId && L.replacerId === rId)) {
-              links.push({ id: uid('link'), patternId: pId, replacerId: rId, enabled: true, comment: "" })
+              const link: LinkItem = { id: uid('link'), patternId: pId, replacerId: rId, enabled: true, comment: "" }
+              links.push(link)
+              this.plugin.setLinkEnabled(link, true)
+              this.plugin.seedUsage([link.id])
               saveDebounced()
             }
             (stage.querySelectorAll('.pte-pending') as NodeListOf<Element>).forEach(n => n.classList.remove('pte-pending'))
@@ -638,7 +3959,43 @@ class PasteTransformSettingsTab extends PluginSettingTab {
           }
         })
 
+        // Avisos de backtracking catastrófico e do lint, numa linha própria
+        if (side === 'left') {
+          const risks = regexRiskWarnings(item.text)
+          if (risks.length) li.createDiv({ text: `⚠️ ${risks.join(" · ")}`, cls: "pte-warn" })
+        }
+        for (const it of lint.filter(x => (side === 'left' ? x.patternId : x.replacerId) === item.id)) {
+          renderLintIssue(li, it)
+        }
+
+        // Opções do replacer `fetch` e erros de compilação, numa linha própria
+        if (side === 'right') {
+          const replacer = item as ReplacerItem
+          if (replacer.type === 'fetch') {
+            const sub = li.createDiv({ cls: "pte-sub" })
+            sub.createSpan({ text: "Campo {{title}}:" })
+            const sel = sub.createEl("select", { cls: "dropdown" })
+            for (const f of FETCH_FIELDS) sel.createEl("option", { text: f, value: f })
+            sel.value = replacer.fetchField ?? 'title'
+            sel.addEventListener("change", async () => {
+              replacer.fetchField = sel.value as FetchField
+              await this.plugin.saveSettings()
+              this.plugin.compileRules()
+            })
+            sub.createSpan({ text: "Fallback:" })
+            const fb = sub.createEl("input", { type: "text", value: replacer.fallback ?? "", placeholder: "$&", cls: "pte-inp" })
+            fb.addEventListener("change", async () => {
+              replacer.fallback = fb.value
+              await this.plugin.saveSettings()
+              this.plugin.compileRules()
+            })
+          }
+          const err = this.plugin.compileErrors.find(e => e.replacerId === item.id && !e.linkId)
+          if (err) li.createDiv({ text: err.message, cls: "pte-err" })
+        }
+
         handle.addEventListener("click", (e) => e.preventDefault())
+        makeSortable(side, li, handle, item.id, () => side === 'left' ? getArrays().patterns : getArrays().replacers)
 
         // mini-links
         const mini = li.createDiv({ cls: "pte-links-mini" })
@@ -654,9 +4011,9 @@ class PasteTransformSettingsTab extends PluginSettingTab {
             const label = mini.createDiv({ cls: "pte-mini" })
             const chk = document.createElement("input")
             chk.type = "checkbox"
-            chk.checked = L.enabled !== false
+            chk.checked = this.plugin.isLinkEnabled(L)
             chk.addEventListener("change", async () => {
-              L.enabled = chk.checked
+              this.plugin.setLinkEnabled(L, chk.checked)
               await this.plugin.saveSettings()
               this.plugin.compileRules()
               drawLines()
@@ -672,6 +4029,21 @@ class PasteTransformSettingsTab extends PluginSettingTab {
           ; (li as any)._renderMini = renderMini
         renderMini()
       }
+
+      // Regras de notas: somente leitura, com link para a linha de origem
+      for (const n of this.plugin.noteRules) {
+        const li = view.list.createEl("li", { cls: "pte-item pte-item-readonly" })
+        li.setAttribute("data-id", side === 'left' ? n.pattern.id : n.replacer.id)
+        li.createSpan({ text: "📄", cls: "pte-handle", attr: { title: "Regra de nota (somente leitura)" } })
+        const txt = side === 'left' ? `${n.pattern.text}${n.pattern.flags ? `  /${n.pattern.flags}` : ""}` : n.replacer.text
+        li.createEl("span", { text: txt, title: txt, cls: "pte-txt" })
+        const src = li.createEl("a", { text: `${n.path}:${n.line}`, href: "#", cls: "pte-src" })
+        src.addEventListener("click", (e) => {
+          e.preventDefault()
+          void openNoteAt(n.path, n.line)
+        })
+      }
+      if (this.plugin.noteRules.length) view.count.textContent = `(${arr.length} + ${this.plugin.noteRules.length} 📄)`
     }
 
     const renderMiniLinksForAll = () => {
@@ -706,9 +4078,10 @@ class PasteTransformSettingsTab extends PluginSettingTab {
         const path = document.createElementNS("http://www.w3.org/2000/svg", "path")
         path.setAttribute("d", `M ${x1} ${y1} C ${x1 + dx} ${y1}, ${x2 - dx} ${y2}, ${x2} ${y2}`)
         path.setAttribute("fill", "none")
-        path.setAttribute("stroke", L.enabled ? "var(--interactive-accent)" : "var(--text-muted)")
-        path.setAttribute("stroke-width", L.enabled ? "2" : "1.5")
-        path.setAttribute("opacity", L.enabled ? "0.95" : "0.45")
+        const enabled = this.plugin.isLinkEnabled(L)
+        path.setAttribute("stroke", enabled ? "var(--interactive-accent)" : "var(--text-muted)")
+        path.setAttribute("stroke-width", enabled ? "2" : "1.5")
+        path.setAttribute("opacity", enabled ? "0.95" : "0.45")
         path.style.pointerEvents = "none"
         svg.appendChild(path)
 
@@ -721,45 +4094,228 @@ class PasteTransformSettingsTab extends PluginSettingTab {
         topBtn.createSpan({ text: "✕" })
         topBtn.addEventListener("click", async (e) => {
           e.preventDefault()
-          this.plugin.settings.links = (this.plugin.settings.links || []).filter(K => K.id !== L.id)
+          this.plugin.removeLinks(K => K.id === L.id)
           await this.plugin.saveSettings()
           this.plugin.compileRules()
           render()
         })
 
-        const botBtn = xwrap.createDiv({ cls: `pte-xh pte-xh-bot ${L.enabled ? 'enabled' : ''}` })
+        const botBtn = xwrap.createDiv({ cls: `pte-xh pte-xh-bot ${enabled ? 'enabled' : ''}` })
           ; (botBtn as HTMLElement).style.left = `${mx}px`
           ; (botBtn as HTMLElement).style.top = `${my}px`
         botBtn.createSpan({ text: "✓" })
         botBtn.addEventListener("click", async (e) => {
           e.preventDefault()
-          L.enabled = !L.enabled
+          this.plugin.setLinkEnabled(L, !enabled)
           await this.plugin.saveSettings()
           this.plugin.compileRules()
           drawLines()
           renderMiniLinksForAll()
         })
       }
+
+      // Regras de notas: linha tracejada, sem botões (edição só na nota)
+      for (const n of this.plugin.noteRules) {
+        const a = left.list.querySelector(`li[data-id="${n.pattern.id}"]`)
+        const b = right.list.querySelector(`li[data-id="${n.replacer.id}"]`)
+        if (!a || !b) continue
+        const ar = a.getBoundingClientRect()
+        const br = b.getBoundingClientRect()
+        const x1 = ar.right - stageRect.left
+        const y1 = ar.top + ar.height / 2 - stageRect.top
+        const x2 = br.left - stageRect.left
+        const y2 = br.top + br.height / 2 - stageRect.top
+        const dx = Math.max(40, (x2 - x1) * 0.5)
+        const path = document.createElementNS("http://www.w3.org/2000/svg", "path")
+        path.setAttribute("d", `M ${x1} ${y1} C ${x1 + dx} ${y1}, ${x2 - dx} ${y2}, ${x2} ${y2}`)
+        path.setAttribute("fill", "none")
+        path.setAttribute("stroke", n.link.enabled ? "var(--interactive-accent)" : "var(--text-muted)")
+        path.setAttribute("stroke-width", "1.5")
+        path.setAttribute("stroke-dasharray", "4 3")
+        path.setAttribute("opacity", n.link.enabled ? "0.8" : "0.45")
+        path.style.pointerEvents = "none"
+        svg.appendChild(path)
+      }
     }
 
+    // Ordenação e filtro de regras paradas (só mudam a exibição; a prioridade continua a ordem das ligações)
+    let linkSort: 'priority' | 'most' | 'least' | 'oldest' = 'priority'
+    let staleDays = 30
+    let onlyStale = false
     const renderLinksPanel = () => {
-      const prev = root.querySelector(".pte-links-panel")
-      if (prev) prev.remove()
-
-      const panel = root.createDiv({ cls: "pte-links-panel" })
+      linksHost.empty()
+      const panel = linksHost.createDiv({ cls: "pte-links-panel" })
       panel.createEl("h4", { text: "Ligações (sumário + comentário)" })
+      panel.createEl("p", {
+        text: "Ordem = prioridade: a primeira regra habilitada que casar vence. Arraste ↕️ para mudar a prioridade.",
+        cls: "setting-item-description",
+      })
 
-      const table = panel.createEl("div")
       const { patterns, replacers, links } = getArrays()
-      const pMap = new Map(patterns.map(p => [p.id, p.text]))
+      const usage = this.plugin.settings.usage
+      const tracking = this.plugin.settings.trackUsage
+      const stale = new Set(tracking ? this.plugin.staleLinks(staleDays).map(L => L.id) : [])
+      if (tracking) {
+        new Setting(panel)
+          .setName("Uso")
+          .setDesc(`Ordenar as ligações e filtrar as sem uso há N dias (${stale.size} agora).`)
+          .addDropdown(d => d
+            .addOption('priority', "Prioridade")
+            .addOption('most', "Mais usadas")
+            .addOption('least', "Menos usadas")
+            .addOption('oldest', "Uso mais antigo")
+            .setValue(linkSort)
+            .onChange(v => { linkSort = v as typeof linkSort; renderLinksPanel() }))
+          .addText(inp => {
+            inp.inputEl.type = "number"
+            inp.setPlaceholder("dias")
+            inp.setValue(`${staleDays}`)
+            inp.inputEl.addEventListener("change", () => {
+              const n = Number(inp.getValue())
+              if (!Number.isInteger(n) || n < 1) return
+              staleDays = n
+              renderLinksPanel()
+            })
+          })
+          .addToggle(t => t
+            .setTooltip("Mostrar só as sem uso")
+            .setValue(onlyStale)
+            .onChange(v => { onlyStale = v; renderLinksPanel() }))
+          .addButton(b => b
+            .setButtonText("Desabilitar paradas")
+            .setDisabled(!stale.size)
+            .onClick(async () => {
+              for (const L of links) if (stale.has(L.id)) this.plugin.setLinkEnabled(L, false)
+              await this.plugin.saveSettings()
+              this.plugin.compileRules()
+              render()
+            }))
+          .addButton(b => b
+            .setButtonText("Excluir paradas")
+            .setWarning()
+            .setDisabled(!stale.size)
+            .onClick(async () => {
+              if (!confirm(`Excluir ${stale.size} ligação(ões) sem uso há ${staleDays} dias? Padrões e replacers ficam.`)) return
+              try { await this.plugin.backupNow('delete') }
+              catch (e) {
+                console.error(e)
+                new Notice(`Backup automático falhou (${errorMessage(e)}); nada foi excluído.`)
+                return
+              }
+              this.plugin.removeLinks(L => stale.has(L.id))
+              await this.plugin.saveSettings()
+              this.plugin.compileRules()
+              render()
+            }))
+      }
+
+      const table = panel.createEl("div")
+      const pMap = new Map(patterns.map(p => [p.id, `${p.text}/${p.flags ?? ""}`]))
       const rMap = new Map(replacers.map(r => [r.id, r.text]))
+      const count = (L: LinkItem) => usage[L.id]?.count ?? 0
+      const last = (L: LinkItem) => usage[L.id]?.lastUsed ?? 0
+      const shown = (links || [])
+        .map((L, idx) => ({ L, idx }))
+        .filter(({ L }) => !onlyStale || stale.has(L.id))
+        .sort((a, b) =>
+          linkSort === 'most' ? count(b.L) - count(a.L) :
+            linkSort === 'least' ? count(a.L) - count(b.L) :
+              linkSort === 'oldest' ? last(a.L) - last(b.L) : 0)
 
-        ; (links || []).forEach((L, idx) => {
+        ; shown.forEach(({ L, idx }) => {
           const row = table.createDiv({ cls: "pte-link-row" })
-          const status = L.enabled !== false ? "habilitada" : "desabilitada"
+          row.setAttribute("data-link-id", L.id)
+          const status = this.plugin.isLinkEnabled(L) ? "habilitada" : "desabilitada"
+          const linkErr = this.plugin.compileErrors.find(e => e.linkId === L.id)
+          if (linkErr) row.createDiv({ text: `⚠️ ${linkErr.message}`, cls: "pte-err" })
+          for (const it of lint.filter(x => x.linkId === L.id)) renderLintIssue(row, it)
+          const scopeTxt = describeScope(L.scope)
+          const failing = failedLinks.has(L.id)
+          const head = new Setting(row)
+            .setName(`Regra — ${status}${failing ? " — ❌ testes falhando" : ""}`)
+            .setDesc(`/${pMap.get(L.patternId) || "?/"} → "${rMap.get(L.replacerId) || "?"}"${scopeTxt ? `  [${scopeTxt}]` : ""}`)
+            .addToggle(t => {
+              t.setTooltip("Continuar: a saída desta regra alimenta as próximas (pipeline)")
+              t.setValue(!!L.continue)
+              t.onChange(async v => {
+                L.continue = v
+                await this.plugin.saveSettings()
+                this.plugin.compileRules()
+              })
+            })
+          head.addDropdown(d => {
+            for (const [k, label] of Object.entries(FLAVOR_LABELS)) d.addOption(k, label)
+            d.setValue(L.flavor ?? 'text')
+            d.onChange(async v => {
+              L.flavor = v as ClipboardFlavor
+              await this.plugin.saveSettings()
+              this.plugin.compileRules()
+            })
+          })
+          const handle = createSpan({ text: "↕️", cls: "pte-handle", attr: { title: "Arrastar para mudar a prioridade" } })
+          handle.createSpan({ text: `#${idx + 1}`, cls: "pte-prio" })
+          head.nameEl.prepend(handle)
+          // Com outra ordenação ou filtro, arrastar mudaria a prioridade sem o usuário ver a ordem real
+          if (linkSort === 'priority' && !onlyStale) makeSortable('links', row, handle, L.id, () => getArrays().links)
+
+          if (tracking) {
+            const u = usage[L.id]
+            const info = row.createEl("details", { cls: `pte-usage${stale.has(L.id) ? " stale" : ""}` })
+            info.createEl("summary", {
+              text: u?.count ? `${u.count} uso(s) · último: ${new Date(u.lastUsed).toLocaleString()}` : "Nunca usada",
+            })
+            for (const sample of u?.samples ?? []) info.createEl("pre", { text: sample, cls: "pte-pick-preview" })
+          }
+
+          const setScope = (patch: Partial<RuleScope>) => {
+            L.scope = Object.assign({}, L.scope, patch)
+            if (isEmptyScope(L.scope)) delete L.scope
+            window.clearTimeout(this.scopeTimer)
+            this.scopeTimer = window.setTimeout(async () => {
+              await this.plugin.saveSettings()
+              this.plugin.compileRules()
+            }, 300)
+          }
           new Setting(row)
-            .setName(`Regra #${idx + 1} — ${status}`)
-            .setDesc(`/${pMap.get(L.patternId) || "?"}/ → "${rMap.get(L.replacerId) || "?"}"`)
+            .setName("")
+            .setDesc("Escopo (opcional): pasta/glob, tag, frontmatter chave = valor")
+            .addText(inp => {
+              inp.setPlaceholder("Work/**")
+              inp.setValue(L.scope?.folder ?? "")
+              inp.onChange(v => setScope({ folder: v }))
+            })
+            .addText(inp => {
+              inp.setPlaceholder("tag")
+              inp.setValue(L.scope?.tag ?? "")
+              inp.onChange(v => setScope({ tag: v }))
+            })
+            .addText(inp => {
+              inp.setPlaceholder("chave")
+              inp.setValue(L.scope?.frontmatterKey ?? "")
+              inp.onChange(v => setScope({ frontmatterKey: v }))
+            })
+            .addText(inp => {
+              inp.setPlaceholder("valor")
+              inp.setValue(L.scope?.frontmatterValue ?? "")
+              inp.onChange(v => setScope({ frontmatterValue: v }))
+            })
+
+          const ctxRow = new Setting(row)
+            .setName("")
+            .setDesc("Contextos do cursor onde a regra pode disparar")
+          const blocked = new Set(L.blockedContexts ?? DEFAULT_BLOCKED_CONTEXTS)
+          for (const [k, label] of Object.entries(MD_CONTEXT_LABELS) as [MdContext, string][]) {
+            const lbl = ctxRow.controlEl.createEl("label", { cls: "pte-mini" })
+            const chk = lbl.createEl("input", { type: "checkbox" })
+            chk.checked = !blocked.has(k)
+            lbl.appendText(label)
+            chk.addEventListener("change", async () => {
+              if (chk.checked) blocked.delete(k); else blocked.add(k)
+              L.blockedContexts = Object.keys(MD_CONTEXT_LABELS).filter(c => blocked.has(c as MdContext)) as MdContext[]
+              await this.plugin.saveSettings()
+              this.plugin.compileRules()
+            })
+          }
 
           new Setting(row)
             .setName("")
@@ -769,10 +4325,88 @@ class PasteTransformSettingsTab extends PluginSettingTab {
               inp.setValue(L.comment || "")
               inp.onChange(async v => { L.comment = v; await this.plugin.saveSettings() })
             })
+
+          // Testes da regra: exemplos entrada → saída e amostras que não podem casar
+          const tests = row.createEl("details", { cls: "pte-rule-tests" })
+          if (failing) tests.open = true
+          tests.createEl("summary", { text: `Testes (${(L.tests || []).length} exemplo(s), ${(L.mustNotMatch || []).length} negativo(s))` })
+          const saveTests = async () => { await this.plugin.saveSettings() }
+            ; (L.tests || []).forEach((t, ti) => {
+              new Setting(tests)
+                .setName(`Exemplo ${ti + 1}`)
+                .addText(inp => inp.setPlaceholder("entrada").setValue(t.input).onChange(async v => { t.input = v; await saveTests() }))
+                .addText(inp => inp.setPlaceholder("saída esperada").setValue(t.expected).onChange(async v => { t.expected = v; await saveTests() }))
+                .addExtraButton(b => b.setIcon("trash").setTooltip("Remover exemplo").onClick(async () => {
+                  L.tests?.splice(ti, 1)
+                  if (!L.tests?.length) delete L.tests
+                  await saveTests()
+                  renderLinksPanel()
+                }))
+            })
+          new Setting(tests)
+            .setName("Não pode casar")
+            .setDesc("Uma amostra por linha: esta regra não pode transformá-las.")
+            .addTextArea(ta => {
+              ta.setValue((L.mustNotMatch || []).join("\n"))
+              ta.onChange(async v => {
+                const lines = v.split("\n").filter(x => x.trim())
+                if (lines.length) L.mustNotMatch = lines; else delete L.mustNotMatch
+                await saveTests()
+              })
+            })
+          new Setting(tests)
+            .addButton(b => b.setButtonText("Adicionar exemplo").onClick(async () => {
+              (L.tests ??= []).push({ input: "", expected: "" })
+              await saveTests()
+              renderLinksPanel()
+            }))
         })
     }
 
+    // ===== Testes das regras =====
+    let failedLinks = new Set<Id>()
+    const renderTests = (outcomes: TestOutcome[] | null) => {
+      testsHost.empty()
+      const setting = new Setting(testsHost)
+        .setName("Testes das regras")
+        .setDesc("Roda os exemplos e as amostras negativas de cada ligação pelo pipeline completo (escopos e contextos são ignorados).")
+        .addButton(b => b
+          .setButtonText("Run tests")
+          .setCta()
+          .onClick(() => {
+            const results = this.plugin.runTests()
+            failedLinks = new Set(results.filter(r => !r.pass && !r.skipped).map(r => r.linkId))
+            renderTests(results)
+            renderLinksPanel()
+          }))
+      if (!outcomes) return
+      const ran = outcomes.filter(o => !o.skipped)
+      const passed = ran.filter(o => o.pass).length
+      setting.setDesc(outcomes.length
+        ? `${passed}/${ran.length} passaram${outcomes.length > ran.length ? ` · ${outcomes.length - ran.length} pulado(s) (regra desabilitada)` : ""}.`
+        : "Nenhuma ligação tem testes. Adicione exemplos em “Testes” de cada regra.")
+      const list = testsHost.createDiv({ cls: "pte-test-list" })
+      for (const o of outcomes) {
+        if (o.pass) continue
+        const item = list.createDiv({ cls: `pte-test ${o.skipped ? "skipped" : "fail"}` })
+        item.createDiv({ text: `${o.skipped ? "⏭️" : "❌"} ${describeLink(o.linkId)} — ${o.kind === 'example' ? "exemplo" : "não pode casar"}`, cls: "pte-review-rule" })
+        item.createDiv({ text: `entrada: ${o.input}` })
+        if (o.kind === 'example' && !o.skipped) {
+          const d = diffStrings(o.expected ?? "", o.actual)
+          const exp = item.createDiv({ text: "esperado: " })
+          exp.appendText(d.prefix); exp.createEl("mark", { text: d.a || "∅" }); exp.appendText(d.suffix)
+          const act = item.createDiv({ text: "obtido:   " })
+          act.appendText(d.prefix); act.createEl("mark", { text: d.b || "∅" }); act.appendText(d.suffix)
+        } else if (o.kind === 'negative' && !o.skipped) {
+          item.createDiv({ text: `a regra transformou em: ${o.actual}` })
+        }
+        for (const er of o.errors) item.createDiv({ text: `⚠️ ${er}`, cls: "pte-err" })
+      }
+    }
+    renderTests(null)
+
     const render = () => {
+      renderLint()
       renderColumn('left')
       renderColumn('right')
       setTimeout(() => { drawLines() }, 30)
@@ -786,13 +4420,396 @@ class PasteTransformSettingsTab extends PluginSettingTab {
     // >>> Render inicial para não ficar “vazio” após recompilar
     render()
 
+    // Destaca a ligação (linha no painel + padrão e replacer no palco) e rola até ela:
+    // o histórico leva à linha da ligação, o Try ao palco de duas colunas
+    const focusLink = (id: Id, target: 'row' | 'stage' = 'row') => {
+      const L = [...getArrays().links, ...this.plugin.noteRules.map(n => n.link)].find(x => x.id === id)
+      if (!L) { new Notice("Ligação não encontrada."); return }
+      let row = linksHost.querySelector<HTMLElement>(`[data-link-id="${id}"]`)
+      if (!row && onlyStale) {
+        onlyStale = false
+        renderLinksPanel()
+        row = linksHost.querySelector<HTMLElement>(`[data-link-id="${id}"]`)
+      }
+      const items = [L.patternId, L.replacerId]
+        .map(x => this.containerEl.querySelector<HTMLElement>(`li[data-id="${x}"]`))
+        .filter((el): el is HTMLElement => !!el)
+      const els = row ? [row, ...items] : items
+      const scrollTo = target === 'stage' ? items[0] ?? row : row ?? items[0]
+      scrollTo?.scrollIntoView({ behavior: "smooth", block: "center" })
+      for (const el of els) {
+        el.removeClass("pte-flash")
+        void el.offsetWidth // reinicia a animação
+        el.addClass("pte-flash")
+      }
+    }
+    if (this.plugin.focusLinkId) {
+      const id = this.plugin.focusLinkId
+      this.plugin.focusLinkId = null
+      setTimeout(() => focusLink(id), 50)
+    }
+
+    // ===== Regras de saída (copiar/recortar) =====
+    const renderOutbound = () => {
+      outboundHost.empty()
+      outboundHost.createEl("h4", { text: "Regras de saída (copiar/recortar de uma nota)" })
+      outboundHost.createEl("p", {
+        text: "Aplicadas em ordem, em todas as ocorrências, ao texto copiado ou recortado. “Texto” altera o texto puro; “HTML” gera a versão HTML do clipboard.",
+        cls: "setting-item-description",
+      })
+      const outbound = this.plugin.settings.outbound
+      const saveOutbound = async () => {
+        await this.plugin.saveSettings()
+        this.plugin.compileRules()
+        runOutboundTry()
+      }
+      outbound.forEach((o, idx) => {
+        const row = new Setting(outboundHost)
+          .setName(`#${idx + 1}`)
+          .setDesc(o.comment || "")
+          .addToggle(t => t.setValue(o.enabled).onChange(async v => { o.enabled = v; await saveOutbound() }))
+          .addText(t => {
+            t.setPlaceholder("regex")
+            t.setValue(o.pattern)
+            t.inputEl.addClass("pte-script")
+            t.onChange(async v => { o.pattern = v; await saveOutbound() })
+          })
+          .addText(t => {
+            t.setPlaceholder("flags")
+            t.setValue(o.flags ?? "")
+            t.inputEl.addClass("pte-flags")
+            t.onChange(async v => {
+              try { o.flags = normalizeFlags(v); t.inputEl.removeClass("pte-invalid") }
+              catch { t.inputEl.addClass("pte-invalid"); return }
+              await saveOutbound()
+            })
+          })
+          .addText(t => {
+            t.setPlaceholder("substituição")
+            t.setValue(o.replacer)
+            t.onChange(async v => { o.replacer = v; await saveOutbound() })
+          })
+          .addDropdown(d => d
+            .addOption("text", "Texto")
+            .addOption("html", "HTML")
+            .setValue(o.flavor)
+            .onChange(async v => { o.flavor = v as OutboundRule['flavor']; await saveOutbound() }))
+          .addExtraButton(b => b
+            .setIcon("trash")
+            .setTooltip("Excluir")
+            .onClick(async () => {
+              outbound.splice(idx, 1)
+              await saveOutbound()
+              renderOutbound()
+            }))
+        const err = this.plugin.compileErrors.find(e => e.outboundId === o.id)
+        if (err) row.descEl.createDiv({ text: err.message, cls: "pte-err" })
+      })
+      new Setting(outboundHost)
+        .addButton(b => b
+          .setButtonText("Adicionar regra de saída")
+          .onClick(async () => {
+            outbound.push({ id: uid('o'), pattern: "", replacer: "$&", flavor: 'text', enabled: true, comment: "" })
+            await this.plugin.saveSettings()
+            renderOutbound()
+          }))
+
+      // Try das regras de saída
+      new Setting(outboundHost)
+        .setName("Try outbound")
+        .setDesc("Texto como se fosse copiado de uma nota.")
+        .addTextArea(ta => {
+          ta.setPlaceholder("[🐈‍⬛🔨 repo#12](https://github.com/…)")
+          ta.setValue(outboundSample)
+          ta.onChange(v => { outboundSample = v; runOutboundTry() })
+        })
+      outboundResult = outboundHost.createEl("pre", { cls: "pte-outbound-result" })
+      runOutboundTry()
+    }
+    let outboundSample = ""
+    let outboundResult: HTMLElement | null = null
+    const runOutboundTry = () => {
+      if (!outboundResult) return
+      const text = this.plugin.applyOutbound(outboundSample, 'text')
+      const html = this.plugin.applyOutbound(outboundSample, 'html')
+      const errors = [...text.errors, ...html.errors].map(e => `⚠️ ${e.message}`)
+      outboundResult.setText(!outboundSample ? "" : [
+        `text/plain: ${text.output}`,
+        html.fired.length ? `text/html: ${html.output}` : "text/html: (nenhuma regra HTML disparou)",
+        ...errors,
+      ].join("\n"))
+    }
+    renderOutbound()
+
+    new Setting(root)
+      .setName("Aplicar por linha")
+      .setDesc("Em textos com várias linhas, aplica as regras a cada linha separadamente e junta os resultados.")
+      .addToggle(t => {
+        t.setValue(this.plugin.settings.perLine)
+        t.onChange(async v => { this.plugin.settings.perLine = v; await this.plugin.saveSettings() })
+      })
+
+    new Setting(root)
+      .setName("Escolher quando várias regras casam")
+      .setDesc("Ao colar, abre o “Paste as…” se mais de uma regra casar com o clipboard.")
+      .addToggle(t => {
+        t.setValue(this.plugin.settings.pickerOnMultipleMatches)
+        t.onChange(async v => { this.plugin.settings.pickerOnMultipleMatches = v; await this.plugin.saveSettings() })
+      })
+
+    new Setting(root)
+      .setName("Proteção contra regex lentas")
+      .setDesc("Orçamento em ms por regra (0 = desligado) e tamanho mínimo do clipboard, em caracteres, para a verificação. Uma regra que estoura o orçamento é ignorada e o texto original é colado.")
+      .addText(inp => {
+        inp.inputEl.type = "number"
+        inp.setPlaceholder("ms")
+        inp.setValue(`${this.plugin.settings.regexBudgetMs}`)
+        inp.onChange(async v => {
+          const n = Number(v)
+          if (!Number.isFinite(n) || n < 0) return
+          this.plugin.settings.regexBudgetMs = Math.round(n)
+          await this.plugin.saveSettings()
+        })
+      })
+      .addText(inp => {
+        inp.inputEl.type = "number"
+        inp.setPlaceholder("caracteres")
+        inp.setValue(`${this.plugin.settings.regexGuardMinLength}`)
+        inp.onChange(async v => {
+          const n = Number(v)
+          if (!Number.isFinite(n) || n < 0) return
+          this.plugin.settings.regexGuardMinLength = Math.round(n)
+          await this.plugin.saveSettings()
+        })
+      })
+
+    new Setting(root)
+      .setName("Timeout de scripts (ms)")
+      .setDesc("Tempo máximo de cada execução de um replacer script; ao estourar, a regra é pulada.")
+      .addText(inp => {
+        inp.inputEl.type = "number"
+        inp.setValue(`${this.plugin.settings.scriptTimeoutMs}`)
+        inp.onChange(async v => {
+          const n = Number(v)
+          if (!Number.isFinite(n) || n <= 0) return
+          this.plugin.settings.scriptTimeoutMs = Math.round(n)
+          await this.plugin.saveSettings()
+          this.plugin.compileRules()
+        })
+      })
+
+    new Setting(root)
+      .setName("Busca de páginas (🌐)")
+      .setDesc(`Timeout em ms das buscas de replacers 🌐. Cache: ${Object.keys(this.plugin.settings.fetchCache).length} página(s).`)
+      .addText(inp => {
+        inp.inputEl.type = "number"
+        inp.setValue(`${this.plugin.settings.fetchTimeoutMs}`)
+        inp.onChange(async v => {
+          const n = Number(v)
+          if (!Number.isFinite(n) || n <= 0) return
+          this.plugin.settings.fetchTimeoutMs = Math.round(n)
+          await this.plugin.saveSettings()
+        })
+      })
+      .addButton(b => b
+        .setButtonText("Limpar cache")
+        .onClick(async () => {
+          this.plugin.settings.fetchCache = {}
+          await this.plugin.saveSettings()
+          new Notice("Cache de páginas limpo.")
+          this.display()
+        }))
+
+    new Setting(root)
+      .setName("Estatísticas de uso")
+      .setDesc("Registra, só neste cofre, quantas vezes cada ligação disparou ao colar, quando foi a última e as últimas entradas (quantas guardar ao lado). Não vai para exportações nem backups.")
+      .addText(inp => {
+        inp.inputEl.type = "number"
+        inp.setPlaceholder("amostras")
+        inp.setValue(`${this.plugin.settings.usageSamples}`)
+        inp.onChange(async v => {
+          const n = Number(v)
+          if (!Number.isInteger(n) || n < 0) return
+          this.plugin.settings.usageSamples = n
+          await this.plugin.saveSettings()
+        })
+      })
+      .addToggle(t => t.setValue(this.plugin.settings.trackUsage).onChange(async v => {
+        this.plugin.settings.trackUsage = v
+        if (v && !this.plugin.settings.usageSince) this.plugin.settings.usageSince = Date.now()
+        await this.plugin.saveSettings()
+        renderLinksPanel()
+      }))
+      .addButton(b => b
+        .setButtonText("Zerar")
+        .onClick(async () => {
+          if (!confirm("Apagar as estatísticas de uso de todas as ligações?")) return
+          this.plugin.settings.usage = {}
+          this.plugin.settings.usageSince = this.plugin.settings.trackUsage ? Date.now() : 0
+          await this.plugin.saveSettings()
+          renderLinksPanel()
+        }))
+
+    new Setting(root)
+      .setName("Histórico de pastes")
+      .setDesc("Quantos pastes transformados guardar (0 desliga) e se o histórico entra em exportações e backups. Abra o painel pelo comando “Open paste history”.")
+      .addText(inp => {
+        inp.inputEl.type = "number"
+        inp.setValue(`${this.plugin.settings.historySize}`)
+        inp.onChange(async v => {
+          const n = Number(v)
+          if (!Number.isInteger(n) || n < 0) return
+          this.plugin.settings.historySize = n
+          this.plugin.settings.history = this.plugin.settings.history.slice(0, n)
+          await this.plugin.saveSettings()
+          this.plugin.refreshHistoryViews()
+        })
+      })
+      .addToggle(t => t
+        .setTooltip("Incluir em exportações e backups")
+        .setValue(this.plugin.settings.historyInExports)
+        .onChange(async v => {
+          this.plugin.settings.historyInExports = v
+          await this.plugin.saveSettings()
+        }))
+      .addButton(b => b.setButtonText("Abrir").onClick(() => this.plugin.openHistory()))
+      .addButton(b => b
+        .setButtonText("Limpar")
+        .onClick(async () => {
+          if (!confirm("Apagar o histórico de pastes?")) return
+          await this.plugin.clearHistory()
+        }))
+
     // Try/Result
+    let trySource = ""
+    let tryAsHtml = false
+    let tryPath = ""
+    let tryMd: MdContext = 'text'
+    let trySelection = ""
+    let tryFrontmatter = ""
+    let tryRun = 0
+    let tryFetchTimer = 0
+    const runTry = () => {
+      const run = ++tryRun
+      let input: PasteInput = { text: trySource }
+      if (tryAsHtml) {
+        const doc = new DOMParser().parseFromString(trySource, "text/html")
+        input = readPasteInput((doc.body.textContent || "").trim(), trySource)
+      }
+      const ctx = this.plugin.buildContext(tryPath.trim() || null)
+      ctx.md = tryMd
+      ctx.selection = trySelection
+      if (tryFrontmatter.trim()) {
+        let fm: unknown = null
+        try { fm = parseYaml(tryFrontmatter) } catch (_) { /* YAML incompleto enquanto digita */ }
+        if (fm && typeof fm === 'object') {
+          ctx.file = { path: ctx.file?.path ?? "", tags: ctx.file?.tags ?? [], frontmatter: fm as Record<string, unknown> }
+        }
+      }
+      if (this.plugin.needsGuard(input)) {
+        // Entrada grande: as regexes rodam no worker, como no paste
+        this.plugin.transformGuarded(input, ctx).then(r => {
+          if (run !== tryRun) return
+          if (!(r instanceof ReplaceRule)) return showTry(run, input, ctx, r)
+          tryDest?.setValue(input.html ? htmlToMarkdown(input.html) : input.text)
+          renderExplain(input, [])
+          trySteps?.setValue(`⚠️ ${describeLink(r.linkId)}\n   excedeu ${this.plugin.settings.regexBudgetMs} ms; no paste o texto seria colado sem transformar.`)
+        })
+        return
+      }
+      showTry(run, input, ctx, this.plugin.transform(input, ctx))
+    }
+    const showTry = (run: number, input: PasteInput, ctx: PasteContext, result: TransformResult) => {
+      const { output, steps, errors, jobs } = result
+      tryDest?.setValue(output)
+      if (jobs.length) {
+        // Buscas 🌐: mostra os placeholders e troca quando todas terminarem. Só busca quando a
+        // digitação para, senão cada tecla pediria uma URL incompleta
+        window.clearTimeout(tryFetchTimer)
+        tryFetchTimer = window.setTimeout(() => {
+          if (run !== tryRun) return
+          Promise.all(jobs.map(j => this.plugin.resolveJob(j))).then(texts => {
+            if (run !== tryRun) return
+            let final = output
+            jobs.forEach((j, i) => { final = final.replace(j.placeholder, () => texts[i]) })
+            tryDest?.setValue(final)
+          })
+        }, 800)
+      }
+      trySteps?.setValue([
+        ...steps.map((st, i) => `${i + 1}. ${describeLink(st.linkId)} [${st.flavor}]\n   ${st.input}\n → ${st.output}`),
+        ...errors.map(er => `⚠️ ${describeLink(er.linkId)}\n   ${er.message}`),
+      ].join("\n"))
+      this.plugin.explainRules(input, ctx).then(x => {
+        if (run !== tryRun) return
+        if (x instanceof ReplaceRule) renderExplain(input, [])
+        else renderExplain(input, x.rules, x.line)
+      })
+    }
+    const renderExplain = (input: PasteInput, explained: RuleExplanation[], line?: number) => {
+      explainHost.empty()
+      if (!input.text && !input.html) return
+      if (!explained.length) {
+        explainHost.createDiv({ text: "Nenhuma explicação: o texto não foi avaliado pelas regras.", cls: "setting-item-description" })
+        return
+      }
+      if (line) explainHost.createDiv({ text: `Aplicar por linha: explicação da linha ${line}, a primeira que alguma regra muda.`, cls: "setting-item-description" })
+      for (const e of explained) {
+        const off = e.status === 'disabled' || e.status === 'invalid' || e.status === 'out-of-scope'
+        const item = explainHost.createDiv({ cls: `pte-test pte-explain ${e.status}${off ? " off" : ""} pte-clickable` })
+        item.setAttribute("title", "Mostrar a ligação no palco")
+        item.addEventListener("click", () => focusLink(e.linkId, 'stage'))
+        item.createDiv({ text: `${EXPLAIN_LABELS[e.status]}  ${describeLink(e.linkId)}`, cls: "pte-review-rule" })
+        if (e.reason) item.createDiv({ text: e.reason })
+        if (e.subject != null && e.span) {
+          // Só um trecho em volta da ocorrência: o texto pode ser um clipboard enorme
+          const { from, to } = e.span
+          const shown = item.createDiv()
+          shown.appendText(`${from > 80 ? "…" : ""}${e.subject.slice(Math.max(0, from - 80), from)}`)
+          shown.createEl("mark", { text: e.subject.slice(from, Math.min(to, from + 500)) || "∅" })
+          shown.appendText(`${e.subject.slice(to, to + 80)}${to + 80 < e.subject.length ? "…" : ""}`)
+        }
+        for (const g of e.groups) item.createDiv({ text: `${g.name} = ${g.value === undefined ? "(não participou)" : JSON.stringify(g.value)}` })
+      }
+    }
+    new Setting(root)
+      .setName("Simular nota")
+      .setDesc("Caminho da nota de destino e contexto do cursor, para testar escopos e contextos (tags e frontmatter são lidos se a nota existir).")
+      .addText(inp => {
+        inp.setPlaceholder("Work/Reunião.md")
+        inp.onChange(v => { tryPath = v; runTry() })
+      })
+      .addDropdown(d => {
+        for (const [k, label] of Object.entries(MD_CONTEXT_LABELS)) d.addOption(k, label)
+        d.setValue(tryMd)
+        d.onChange(v => { tryMd = v as MdContext; runTry() })
+      })
+
+    new Setting(root)
+      .setName("Simular seleção e frontmatter")
+      .setDesc("Texto selecionado ({{selection}}) e frontmatter em YAML ({{frontmatter.chave}}) usados no teste.")
+      .addText(inp => {
+        inp.setPlaceholder("palavra selecionada")
+        inp.onChange(v => { trySelection = v; runTry() })
+      })
+      .addTextArea(ta => {
+        ta.setPlaceholder("project: Apollo")
+        ta.inputEl.rows = 2
+        ta.onChange(v => { tryFrontmatter = v; runTry() })
+      })
+
     new Setting(root)
       .setName("Try rules")
-      .setDesc("Cole aqui um texto para testar as regras.")
+      .setDesc("Cole aqui um texto (ou HTML) para testar as regras.")
+      .addDropdown(d => {
+        d.addOption("text", "Texto puro")
+        d.addOption("html", "HTML")
+        d.setValue(tryAsHtml ? "html" : "text")
+        d.onChange(v => { tryAsHtml = v === "html"; runTry() })
+      })
       .addTextArea(ta => {
         ta.setPlaceholder("Sample text…")
-        ta.onChange(v => { const out = this.plugin.applyRules(v); tryDest?.setValue(out) })
+        ta.onChange(v => { trySource = v; runTry() })
       })
 
     let tryDest: TextAreaComponent | null = null
@@ -801,6 +4818,26 @@ class PasteTransformSettingsTab extends PluginSettingTab {
       .setDesc("Resultado da transformação")
       .addTextArea(ta => { tryDest = ta; ta.setPlaceholder("Transform result…"); ta.setDisabled(true) })
 
+    // Etapas do pipeline (quais regras dispararam e em que ordem)
+    let trySteps: TextAreaComponent | null = null
+    new Setting(root)
+      .setName("Etapas")
+      .setDesc("Regras que dispararam, em ordem, com entrada e saída de cada uma, e erros de filtros/templates.")
+      .addTextArea(ta => {
+        trySteps = ta
+        ta.setPlaceholder("Nenhuma regra disparou.")
+        ta.setDisabled(true)
+        ta.inputEl.rows = 6
+        ta.inputEl.style.whiteSpace = "pre"
+        ta.inputEl.style.fontFamily = "var(--font-monospace)"
+      })
+
+    // Explicação: todas as ligações em ordem de prioridade, com o que casou e por quê
+    new Setting(root)
+      .setName("Explicação")
+      .setDesc("Cada ligação, em ordem de prioridade: se casou (trecho marcado e grupos), qual venceu e por que as outras ficaram de fora. Clique para ver a ligação no palco.")
+    const explainHost = root.createDiv({ cls: "pte-test-list" })
+
     // Debug mode (fica por último)
     new Setting(root)
       .setName("Debug mode")
@@ -810,21 +4847,17 @@ class PasteTransformSettingsTab extends PluginSettingTab {
       })
 
     // ===== Helpers seção Backups =====
-    const listBackups = async (): Promise<Array<{ path: string; name: string; mtime: number }>> => {
-      // Usa getFiles() para evitar cache do children e pegar arquivos recém-criados
-      const files = this.app.vault.getFiles()
-        .filter(f => f.path.startsWith(`${BACKUP_FOLDER}/`) && f.extension.toLowerCase() === 'json')
-        .map(f => ({ path: f.path, name: f.name, mtime: f.stat?.mtime ?? 0 }))
-      files.sort((a, b) => b.mtime - a.mtime)
-      return files
-    }
-
     const loadBackupsList = async () => {
-      const files = await listBackups()
-      // Memo
-      const lines = files.map(f => {
-        const dt = f.mtime ? new Date(f.mtime).toLocaleString() : "(sem data)"
-        return `${f.name}  —  ${dt}`
+      const backups = await this.plugin.listBackups()
+      const rulesOf = (b: BackupInfo) => {
+        const links = (b.settings as { links?: unknown } | null)?.links
+        return Array.isArray(links) ? links.length : 0
+      }
+      // Memo: data, motivo, quantas regras e o que muda em relação às atuais
+      const lines = backups.map(b => {
+        const dt = b.savedAt ? new Date(b.savedAt).toLocaleString() : "(sem data)"
+        if (!b.settings) return `${b.file.name}  —  ${dt}  —  ilegível`
+        return `${b.file.name}  —  ${dt}${b.reason ? ` (${b.reason})` : ""}  —  ${rulesOf(b)} regra(s)  —  ${describeBackupDiff(b.settings, this.plugin.settings)}`
       })
       backupsMemo?.setValue(lines.join("\n") || "Nenhum backup encontrado.")
 
@@ -832,21 +4865,24 @@ class PasteTransformSettingsTab extends PluginSettingTab {
       if (restoreDropdown?.selectEl) {
         restoreDropdown.selectEl.innerHTML = ""
         restoreDropdown.addOption("", "— selecione um backup —")
-        for (const f of files) restoreDropdown.addOption(f.path, f.name)
+        for (const b of backups) restoreDropdown.addOption(b.file.path, `${b.file.name} (${rulesOf(b)} regras)`)
         restoreDropdown.setValue("")
       }
     }
 
     // Observa alterações no Vault para atualizar lista automaticamente (create/delete/rename)
-    const refreshIfBackup = async (file: TFile | any, _old?: string) => {
+    const refreshIfBackup = async (file: TAbstractFile) => {
+      if (!file.path.startsWith(`${this.plugin.backupFolder()}/`)) return
       try {
-        const p = (file && typeof file.path === 'string') ? file.path : (typeof file === 'string' ? file : '')
-        if (p && p.startsWith(`${BACKUP_FOLDER}/`)) await loadBackupsList()
-      } catch (_) { }
+        await loadBackupsList()
+      } catch (e) {
+        // A lista é só informativa: fica a anterior até a próxima alteração
+        console.error("Paste Transform: falha ao atualizar a lista de backups", e)
+      }
     }
     this.plugin.registerEvent(this.app.vault.on('create', refreshIfBackup))
     this.plugin.registerEvent(this.app.vault.on('delete', refreshIfBackup))
-    this.plugin.registerEvent(this.app.vault.on('rename', (f: TFile, _oldPath: string) => refreshIfBackup(f)))
+    this.plugin.registerEvent(this.app.vault.on('rename', f => refreshIfBackup(f)))
 
     // Carrega a listagem inicial de backups
     loadBackupsList()